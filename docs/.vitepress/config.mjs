@@ -83,6 +83,7 @@ export default defineConfig({
           items: [
             { text: 'ClassBuilder', link: '/advanced/class-builder' },
             { text: 'Mixins', link: '/advanced/mixins' },
+            { text: 'Reactivity', link: '/advanced/reactivity' },
           ]
         }
       ],
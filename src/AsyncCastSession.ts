@@ -0,0 +1,89 @@
+import type CastingManager from './CastingManager'
+import type { AsyncCastFunction, CastContext } from './CastingManager'
+import CastError from './CastError'
+import { TypeParam, formatTypeSpec } from './TypeParser'
+
+/**
+ * Resolves the async casters met while building a value
+ *
+ * The value is built twice synchronously: the first pass collects the values
+ * of async types, which are then resolved concurrently, and the second pass
+ * picks up the resolved values. Equal values of the same type are resolved
+ * once per session
+ */
+export default class AsyncCastSession {
+  private readonly manager: CastingManager
+  private results: Map<string, Map<any, any>> = new Map()
+  private pending: Array<() => Promise<void>> = []
+  private resolved: boolean = false
+
+  constructor(manager: CastingManager) {
+    this.manager = manager
+  }
+
+  /**
+   * Records the value in the first pass, returns its resolved value in the
+   * second one. Values are kept as they are until they are resolved
+   */
+  cast(
+    type: string,
+    castFn: AsyncCastFunction,
+    value: any,
+    params: TypeParam[],
+    context?: CastContext
+  ): any {
+    const spec = formatTypeSpec({ name: type, params })
+    const results = this.resultsOf(spec)
+    if (this.resolved) {
+      return results.has(value) ? results.get(value) : value
+    }
+    if (results.has(value)) {
+      return value
+    }
+
+    results.set(value, value)
+    this.pending.push(async () => {
+      try {
+        results.set(
+          value,
+          await castFn.call(this.manager, value, params, context)
+        )
+      } catch (error) {
+        if (context?.strict) {
+          throw new CastError(spec, value, context.path, error)
+        }
+        console.error(`Error casting value to ${type}:`, error)
+      }
+    })
+
+    return value
+  }
+
+  private resultsOf(spec: string): Map<any, any> {
+    let results = this.results.get(spec)
+    if (!results) {
+      results = new Map()
+      this.results.set(spec, results)
+    }
+    return results
+  }
+
+  /**
+   * Runs the collected casts, at most `concurrency` at a time
+   */
+  async resolve(concurrency: number): Promise<void> {
+    const tasks = this.pending
+    this.pending = []
+
+    let next = 0
+    const worker = async () => {
+      while (next < tasks.length) {
+        await tasks[next++]()
+      }
+    }
+    const workers = Math.max(1, Math.min(concurrency, tasks.length))
+    await Promise.all(Array.from({ length: workers }, worker))
+
+    this.resolved = true
+  }
+}
@@ -1,8 +1,74 @@
+import type CastingManager from './CastingManager'
+import BigDecimal, { RoundingMode } from './BigDecimal'
+import Money from './Money'
+import { ValidationErrors, validateNested } from './validation'
+import Emitter, { EventListener, ModelEvent, isObservable } from './Emitter'
+
 export type ItemCastingFunction<T> = (item: any) => T
 
+type ExactNumber = BigDecimal | Money
+
+// The aggregate of an attribute: exact for BigDecimal and Money attributes,
+// a number otherwise
+type Aggregate<V> = [V] extends [ExactNumber] ? V : number
+
+// Digits added to the scale of the values by avg(), unless given a scale
+const AVERAGE_EXTRA_SCALE = 10
+
+function isExactNumber(value: any): value is ExactNumber {
+  return value instanceof BigDecimal || value instanceof Money
+}
+
+/**
+ * Divides to the given scale. Without one, the quotient is computed with
+ * extra digits and its trailing zeros are dropped, down to the scale of the
+ * total: 1 / 2 is `0.5`, 1 / 3 is `0.3333333333`
+ */
+function divideExact(
+  total: BigDecimal,
+  divisor: number,
+  scale: number | undefined,
+  mode: RoundingMode
+): BigDecimal {
+  if (scale !== undefined) {
+    return total.dividedBy(divisor, scale, mode)
+  }
+
+  let quotient = total.dividedBy(
+    divisor,
+    total.scale + AVERAGE_EXTRA_SCALE,
+    mode
+  )
+  const ten = BigInt(10)
+  while (quotient.scale > total.scale && quotient.units % ten === BigInt(0)) {
+    quotient = new BigDecimal(quotient.units / ten, quotient.scale - 1)
+  }
+  return quotient
+}
+
 export default class BaseCollection<T = any> extends Array<T> {
   protected _castingFn: ItemCastingFunction<T> | undefined
   protected _idAttribute: string = 'id'
+  protected _events: Emitter | null = null
+  // Change listeners of the item models
+  private _links: Map<any, EventListener> | null = null
+  // Set for the collections of immutable models
+  private _frozen: boolean = false
+
+  /**
+   * Creates a collection once the async casters of its items resolved
+   * Requires the casting manager set up by the ClassBuilder
+   */
+  static hydrate<C extends BaseCollection>(
+    this: new (items?: any[]) => C,
+    items: any[] = []
+  ): Promise<C> {
+    const castingManager: CastingManager | undefined = (this.prototype as any)
+      ._castingManager
+    return castingManager
+      ? castingManager.runAsync(() => new this(items))
+      : Promise.resolve(new this(items))
+  }
 
   constructor(items: any[] = [], castingFn?: ItemCastingFunction<T>) {
     super()
@@ -15,6 +81,101 @@ export default class BaseCollection<T = any> extends Array<T> {
     }
   }
 
+  /**
+   * Listens to the collection events. `change` is emitted when items are
+   * added or removed and when item models change
+   * Changes made without the collection methods, e.g. index assignments,
+   * `length` changes, `fill()` or in-place sorting, are not emitted
+   */
+  on(type: string, listener: EventListener): this {
+    if (!this._events) {
+      this._events = new Emitter()
+    }
+    this._events.on(type, listener)
+    if (type === 'change') {
+      this.forEach((item) => this._linkItem(item))
+    }
+    return this
+  }
+
+  /**
+   * Removes a listener, or all listeners of the event type
+   */
+  off(type: string, listener?: EventListener): this {
+    this._events?.off(type, listener)
+    if (this._links && !this._isObserved()) {
+      this._links.forEach((link, item) => item.off('change', link))
+      this._links = null
+    }
+    return this
+  }
+
+  emit(type: string, event: Partial<ModelEvent> = {}): this {
+    this._events?.emit(this, { target: this, path: '', ...event, type })
+    return this
+  }
+
+  protected _isObserved(): boolean {
+    return !!this._events?.has('change')
+  }
+
+  // Re-emits the changes of an item model, with the path of the item
+  protected _linkItem(item: any): void {
+    if (!isObservable(item) || this._links?.has(item)) {
+      return
+    }
+    const listener = (event: ModelEvent) => {
+      const path = `${this.indexOf(item)}.${event.path}`
+      this.emit('change', { ...event, path })
+    }
+    item.on('change', listener)
+    if (!this._links) {
+      this._links = new Map()
+    }
+    this._links.set(item, listener)
+  }
+
+  protected _itemAdded(item: any, index: number): void {
+    if (!this._isObserved()) {
+      return
+    }
+    this._linkItem(item)
+    this.emit('change', { path: String(index), value: item })
+  }
+
+  protected _itemRemoved(item: any, index: number): void {
+    const link = this._links?.get(item)
+    if (link && !this.includes(item)) {
+      item.off('change', link)
+      this._links?.delete(item)
+    }
+    if (this._isObserved()) {
+      this.emit('change', { path: String(index), oldValue: item })
+    }
+  }
+
+  /**
+   * Makes the methods adding or removing items throw, e.g. for the
+   * collections of immutable models. `withAdded()` and `withRemoved()`
+   * still return changed copies
+   */
+  freeze(): this {
+    this._frozen = true
+    return this
+  }
+
+  isFrozen(): boolean {
+    return this._frozen
+  }
+
+  protected _assertMutable(): void {
+    if (this._frozen) {
+      throw new Error(
+        'Cannot change the items of an immutable collection, use withAdded() or withRemoved() instead'
+      )
+    }
+  }
+
   protected _castItem(item: any): T {
     return this._castingFn ? this._castingFn(item) : item
   }
@@ -40,17 +201,20 @@ export default class BaseCollection<T = any> extends Array<T> {
   }
 
   add(item: any): this {
+    this._assertMutable()
     const castedItem = this._castItem(item)
 
     // Only add if the item doesn't already exist
     if (!this._itemExists(castedItem)) {
       super.push(castedItem)
+      this._itemAdded(castedItem, this.length - 1)
     }
 
     return this
   }
 
   remove(itemOrId: any): this {
+    this._assertMutable()
     let idToRemove: any
 
     if (typeof itemOrId === 'object' && itemOrId !== null) {
@@ -68,19 +232,57 @@ export default class BaseCollection<T = any> extends Array<T> {
 
     // Remove the item if found
     if (indexToRemove !== -1) {
-      super.splice(indexToRemove, 1)
+      const [removed] = super.splice(indexToRemove, 1)
+      this._itemRemoved(removed, indexToRemove)
     }
 
     return this
   }
 
+  /**
+   * Returns a new collection with the items added, this one is unchanged
+   */
+  withAdded(...items: any[]): BaseCollection<T> {
+    const collection = this._newInstance([...this])
+    collection.push(...items)
+    return collection
+  }
+
+  /**
+   * Returns a new collection without the item, this one is unchanged
+   */
+  withRemoved(itemOrId: any): BaseCollection<T> {
+    return this._newInstance([...this]).remove(itemOrId)
+  }
+
   push(...items: any[]): number {
     items.forEach((item) => this.add(item))
 
     return this.length
   }
 
+  pop(): T | undefined {
+    this._assertMutable()
+    if (this.length === 0) {
+      return undefined
+    }
+    const item = super.pop() as T
+    this._itemRemoved(item, this.length)
+    return item
+  }
+
+  shift(): T | undefined {
+    this._assertMutable()
+    if (this.length === 0) {
+      return undefined
+    }
+    const item = super.shift() as T
+    this._itemRemoved(item, 0)
+    return item
+  }
+
   unshift(...items: any[]): number {
+    this._assertMutable()
     const castedItems = items.map((item) => this._castItem(item))
 
     // Filter out items that already exist
@@ -89,6 +291,7 @@ export default class BaseCollection<T = any> extends Array<T> {
     // If we have new items, add them at the beginning
     if (newItems.length > 0) {
       super.unshift(...newItems)
+      newItems.forEach((item, index) => this._itemAdded(item, index))
     }
 
     return this.length
@@ -99,7 +302,38 @@ export default class BaseCollection<T = any> extends Array<T> {
     return new Constructor(items, this._castingFn)
   }
 
-  sum(attributeOrGetter: string | ((item: T) => number)): number {
+  // Adds BigDecimal and Money values without losing precision
+  protected _exactSum(
+    attributeOrGetter: string | ((item: T) => any)
+  ): ExactNumber | null {
+    const values = this.toArray()
+      .map((item) =>
+        typeof attributeOrGetter === 'string'
+          ? (item as any)[attributeOrGetter]
+          : attributeOrGetter(item)
+      )
+      .filter((value) => value !== null && value !== undefined)
+
+    const start = values.findIndex(isExactNumber)
+    if (start === -1) {
+      return null
+    }
+
+    return values
+      .filter((value, index) => index !== start)
+      .reduce((total: any, value) => total.plus(value), values[start])
+  }
+
+  sum<K extends keyof T & string>(attribute: K): Aggregate<T[K]>
+  sum(attribute: string): number
+  sum(getter: (item: T) => number): number
+  sum<R extends ExactNumber>(getter: (item: T) => R): R
+  sum(attributeOrGetter: string | ((item: T) => any)): any {
+    const exact = this._exactSum(attributeOrGetter)
+    if (exact) {
+      return exact
+    }
+
     return this.reduce((total, item) => {
       let value: number
 
@@ -157,10 +391,40 @@ export default class BaseCollection<T = any> extends Array<T> {
     }, Number.NEGATIVE_INFINITY)
   }
 
-  avg(attributeOrGetter: string | ((item: T) => number)): number | null {
+  /**
+   * The average of the values. `BigDecimal` and `Money` averages are divided
+   * to the given scale with the rounding mode, or to 10 more digits than the
+   * values without trailing zeros
+   */
+  avg<K extends keyof T & string>(
+    attribute: K,
+    scale?: number,
+    mode?: RoundingMode
+  ): Aggregate<T[K]> | null
+  avg(attribute: string): number | null
+  avg(getter: (item: T) => number): number | null
+  avg<R extends ExactNumber>(
+    getter: (item: T) => R,
+    scale?: number,
+    mode?: RoundingMode
+  ): R | null
+  avg(
+    attributeOrGetter: string | ((item: T) => any),
+    scale?: number,
+    mode: RoundingMode = 'half-up'
+  ): any {
     if (this.length === 0) return null
 
-    const sum = this.sum(attributeOrGetter)
+    const exact = this._exactSum(attributeOrGetter)
+    if (exact instanceof Money) {
+      const amount = divideExact(exact.amount, this.length, scale, mode)
+      return new Money(amount, exact.currency)
+    }
+    if (exact) {
+      return divideExact(exact, this.length, scale, mode)
+    }
+
+    const sum = this.sum(attributeOrGetter as (item: T) => number)
     return sum / this.length
   }
 
@@ -238,6 +502,7 @@ export default class BaseCollection<T = any> extends Array<T> {
     }
 
     if (inPlace) {
+      this._assertMutable()
       // Sort the array in place
       super.sort(directedSortFn)
       return this
@@ -374,13 +639,33 @@ export default class BaseCollection<T = any> extends Array<T> {
   }
 
   splice(start: number, deleteCount?: number, ...items: any[]): T[] {
-    if (items.length) {
-      const castedItems = items.map((item) => this._castItem(item))
-      return super.splice(start, deleteCount || 0, ...castedItems)
+    this._assertMutable()
+    const castedItems = items.map((item) => this._castItem(item))
+    const from =
+      start < 0
+        ? Math.max(this.length + start, 0)
+        : Math.min(start, this.length)
+
+    let removed: T[]
+    if (castedItems.length) {
+      removed = super.splice(start, deleteCount || 0, ...castedItems)
+    } else {
+      removed =
+        deleteCount === undefined
+          ? super.splice(start)
+          : super.splice(start, deleteCount)
     }
-    return deleteCount === undefined
-      ? super.splice(start)
-      : super.splice(start, deleteCount)
+
+    removed.forEach((item, index) => this._itemRemoved(item, from + index))
+    castedItems.forEach((item, index) => this._itemAdded(item, from + index))
+    return removed
+  }
+
+  /**
+   * Validates the models of the collection, keyed by their index
+   */
+  validate(): Promise<ValidationErrors> {
+    return validateNested([...this])
   }
 
   clone(): BaseCollection<T> {
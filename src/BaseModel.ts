@@ -1,14 +1,310 @@
+import type CastingManager from './CastingManager'
+import type { EnumMember } from './CastingManager'
+import { ValidationErrors, validateAttributes } from './validation'
+import Emitter, { EventListener, ModelEvent, isObservable } from './Emitter'
+import BaseCollection from './BaseCollection'
+
+type AttributeSetter = (model: any, value: any) => void
+
+// The equivalent of setAttribute() for one attribute of a class
+function attributeSetter(prototype: any, key: string): AttributeSetter {
+  const setter = prototype[`_set_${key}`]
+  if (typeof setter === 'function') {
+    return (model, value) => setter.call(model, value)
+  }
+
+  // Casters of the ClassBuilder run the compiled cast of the prop
+  const caster = prototype[`_cast_${key}`]
+  if (typeof caster === 'function') {
+    return (model, value) => {
+      model._data[key] = caster.call(model, value)
+    }
+  }
+
+  return (model, value) => {
+    model._data[key] = value
+  }
+}
+
+/**
+ * The attribute setters of a class, looked up once per attribute for all
+ * instances. Null for classes overriding the setters, e.g. by mixins, which
+ * need the regular path
+ */
+function attributeSetters(prototype: any): Map<string, AttributeSetter> | null {
+  if (
+    Object.prototype.hasOwnProperty.call(prototype, '_attributeSetters') &&
+    prototype._attributeSetters
+  ) {
+    return prototype._attributeSetters
+  }
+
+  const base = BaseModel.prototype
+  const setters =
+    prototype.setAttributes === base.setAttributes &&
+    prototype.setAttribute === base.setAttribute &&
+    prototype.castAttribute === base.castAttribute
+      ? new Map()
+      : null
+  prototype._attributeSetters = setters
+  return setters
+}
+
+function isPlainObject(value: any): boolean {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+// Copies an attribute value so that later in-place changes don't affect it
+function copyValue(value: any): any {
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime())
+  }
+  if (value instanceof Map) {
+    return new Map(
+      [...value].map(([key, item]) => [copyValue(key), copyValue(item)])
+    )
+  }
+  if (value instanceof Set) {
+    return new Set([...value].map(copyValue))
+  }
+  if (value instanceof URL) {
+    return new URL(value.href)
+  }
+  if (value instanceof BaseModel) {
+    return copyModel(value)
+  }
+  if (value instanceof BaseCollection) {
+    const items = value.toArray().map(copyValue)
+    return (value as any)._newInstance(items)
+  }
+  if (typeof value.clone === 'function') {
+    return value.clone()
+  }
+  if (Array.isArray(value)) {
+    return value.map(copyValue)
+  }
+  if (!isPlainObject(value)) {
+    return value
+  }
+
+  const copy: Record<string, any> = {}
+  for (const key of Object.keys(value)) {
+    copy[key] = copyValue(value[key])
+  }
+  return copy
+}
+
+// Copies a model through its attributes, without running its constructor or
+// serializing it
+function copyModel(model: any): any {
+  const copy = Object.create(Object.getPrototypeOf(model))
+  copy._idAttribute = model._idAttribute
+  copy._data = copyValue(model._data)
+  copy._original = copyValue(model._original)
+  copy._events = null
+  copy._links = null
+  copy._initialized = model._initialized
+  return copy
+}
+
+// Whether a set has an item equal to the given one
+function hasEqualItem(set: Set<any>, item: any): boolean {
+  return set.has(item) || [...set].some((other) => isEqualValue(item, other))
+}
+
+/**
+ * Compares attribute values by value: dates by time, models by their
+ * attributes, value objects by their JSON form, arrays, collections, maps,
+ * sets and objects by their items. `null` and `undefined` are both empty
+ */
+function isEqualValue(a: any, b: any): boolean {
+  if (a === b || (a == null && b == null)) {
+    return true
+  }
+  if (
+    a == null ||
+    b == null ||
+    typeof a !== 'object' ||
+    typeof b !== 'object'
+  ) {
+    return Number.isNaN(a) && Number.isNaN(b)
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+  }
+  if (a instanceof Map || b instanceof Map) {
+    return (
+      a instanceof Map &&
+      b instanceof Map &&
+      a.size === b.size &&
+      [...a].every(
+        ([key, item]) => b.has(key) && isEqualValue(item, b.get(key))
+      )
+    )
+  }
+  if (a instanceof Set || b instanceof Set) {
+    return (
+      a instanceof Set &&
+      b instanceof Set &&
+      a.size === b.size &&
+      [...a].every((item) => hasEqualItem(b, item))
+    )
+  }
+  // Models are not serialized for the comparison, which would emit
+  // `serializing`
+  if (a instanceof BaseModel || b instanceof BaseModel) {
+    return (
+      a instanceof BaseModel &&
+      b instanceof BaseModel &&
+      isEqualValue(a.getAttributes(), b.getAttributes())
+    )
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isEqualValue(item, b[index]))
+    )
+  }
+  if (typeof a.toJSON === 'function' || typeof b.toJSON === 'function') {
+    return isEqualValue(
+      typeof a.toJSON === 'function' ? a.toJSON() : a,
+      typeof b.toJSON === 'function' ? b.toJSON() : b
+    )
+  }
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  return [...keys].every((key) => isEqualValue(a[key], b[key]))
+}
+
 /**
  * BaseModel class with minimal implementation
  * Provides basic functionality for model-like objects
  */
 export default class BaseModel {
+  /**
+   * The allowed values of an enum property, e.g. to build a dropdown
+   * Requires the property types set up by the ClassBuilder
+   */
+  static getAllowedValues(prop: string): EnumMember[] | null {
+    const { _castingManager, _propertyTypes } = this.prototype as any
+    const type = _propertyTypes ? _propertyTypes[prop] : undefined
+
+    return _castingManager && type ? _castingManager.getEnumMembers(type) : null
+  }
+
+  /**
+   * Registers a listener for the events of all instances of the class, e.g.
+   * `User.observe('change:email', fn)`. Subclasses inherit the observers
+   */
+  static observe(type: string, listener: EventListener): void {
+    const prototype = this.prototype as any
+    if (!Object.prototype.hasOwnProperty.call(prototype, '_observers')) {
+      prototype._observers = new Emitter(prototype._observers || null)
+    }
+    prototype._observers.on(type, listener)
+  }
+
+  /**
+   * Creates an instance once the async casters of its properties resolved
+   */
+  static hydrate<M extends BaseModel>(
+    this: new (data?: Record<string, any>) => M,
+    data: Record<string, any> = {}
+  ): Promise<M> {
+    const castingManager: CastingManager | undefined = (this.prototype as any)
+      ._castingManager
+    return castingManager
+      ? castingManager.runAsync(() => new this(data))
+      : Promise.resolve(new this(data))
+  }
+
+  /**
+   * Creates instances for a list of rows, e.g. a large report
+   */
+  static fromArray<M extends BaseModel>(
+    this: new (data?: Record<string, any>) => M,
+    rows: Array<Record<string, any>>
+  ): M[] {
+    return rows.map((row) => new this(row))
+  }
+
   protected _idAttribute: string = 'id'
   // Internal data container
   protected _data: Record<string, any> = {}
+  // Copy of the attributes as hydrated, or as of the last syncOriginal()
+  protected _original: Record<string, any> = {}
+  protected _events: Emitter | null = null
+  // Change listeners of the nested models and collections, by attribute
+  private _links: Map<string, [any, EventListener]> | null = null
+  // Changes are not emitted while the model is being hydrated
+  private _initialized: boolean = false
 
   constructor(data: Record<string, any> | undefined | null = {}) {
-    this.setAttributes(data)
+    const setters = attributeSetters(Object.getPrototypeOf(this))
+    if (setters) {
+      this.fillAttributes(data, setters)
+    } else {
+      this.setAttributes(data)
+    }
+    this.syncOriginal()
+    this._initialized = true
+    this.freezeAttributes(data)
+  }
+
+  on(type: string, listener: EventListener): this {
+    const linked = this.isObserved()
+    if (!this._events) {
+      this._events = new Emitter()
+    }
+    this._events.on(type, listener)
+    if (!linked && this.isObserved()) {
+      this.linkAttributes()
+    }
+    return this
+  }
+
+  /**
+   * Removes a listener, or all listeners of the event type
+   */
+  off(type: string, listener?: EventListener): this {
+    this._events?.off(type, listener)
+    if (this._links && !this.isObserved()) {
+      this._links.forEach(([value, link]) => value.off('change', link))
+      this._links = null
+    }
+    return this
+  }
+
+  /**
+   * Calls the observers of the class and the listeners of the model
+   */
+  emit(type: string, event: Partial<ModelEvent> = {}): this {
+    const observers: Emitter | undefined = (this as any)._observers
+    const payload: ModelEvent = { target: this, path: '', ...event, type }
+    observers?.emit(this, payload)
+    this._events?.emit(this, payload)
+    return this
+  }
+
+  /**
+   * Emits `saving`, runs the persisting function, e.g. an API call, and
+   * emits `saved`. The saved values become the original ones
+   */
+  async save(persist: (model: this) => unknown): Promise<this> {
+    this.emit('saving')
+    await persist(this)
+    this.syncOriginal()
+    this.emit('saved')
+    return this
   }
 
   setAttributes(attributes: Record<string, any> | undefined | null): this {
@@ -29,7 +325,7 @@ export default class BaseModel {
 
   getAttribute(key: string): any {
     if (this._data[key] === undefined) {
-      this.setAttribute(key, null)
+      this.fillDefault(key)
     }
     // Check for a custom getter method
     const getterMethod = `_get_${key}`
@@ -41,14 +337,18 @@ export default class BaseModel {
   }
 
   setAttribute(key: string, value: any): this {
+    this.assertMutable(key)
+    const oldValue = this._data[key]
+
     // Check for a custom setter method
     const setterMethod = `_set_${key}`
     if (typeof (this as any)[setterMethod] === 'function') {
       ;(this as any)[setterMethod](value)
-      return this
+    } else {
+      this._data[key] = this.castAttribute(key, value)
     }
 
-    this._data[key] = this.castAttribute(key, value)
+    this.attributeChanged(key, oldValue)
     return this
   }
 
@@ -71,6 +371,242 @@ export default class BaseModel {
     return this._data[key]
   }
 
+  /**
+   * Whether the attribute, or any attribute, changed since hydration
+   */
+  isDirty(key?: string): boolean {
+    if (key !== undefined) {
+      return !isEqualValue(this._data[key], this._original[key])
+    }
+    return this.dirtyKeys().length > 0
+  }
+
+  /**
+   * The current values of the changed attributes
+   */
+  getDirty(): Record<string, any> {
+    const dirty: Record<string, any> = {}
+    this.dirtyKeys().forEach((key) => {
+      dirty[key] = this._data[key]
+    })
+    return dirty
+  }
+
+  getOriginal(key?: string): any {
+    if (key !== undefined) {
+      return copyValue(this._original[key])
+    }
+    return copyValue(this._original)
+  }
+
+  /**
+   * The changed attributes in serialized form, e.g. the body of a PATCH
+   */
+  getChanges(): Record<string, any> {
+    const changes: Record<string, any> = {}
+    this.dirtyKeys().forEach((key) => {
+      const value = this.serializeAttribute(key)
+      changes[key] = value === undefined ? null : value
+    })
+    return changes
+  }
+
+  /**
+   * Makes the current attributes the original ones, e.g. after saving
+   */
+  syncOriginal(): this {
+    this._original = copyValue(this._data)
+    return this
+  }
+
+  /**
+   * Restores the original value of the attribute, or of all attributes
+   */
+  revert(key?: string): this {
+    this.assertMutable(key)
+    const keys =
+      key !== undefined
+        ? [key]
+        : [...Object.keys(this._data), ...Object.keys(this._original)]
+
+    keys.forEach((name) => {
+      const oldValue = this._data[name]
+      if (name in this._original) {
+        this._data[name] = copyValue(this._original[name])
+      } else {
+        delete this._data[name]
+      }
+      this.attributeChanged(name, oldValue)
+    })
+    return this
+  }
+
+  /**
+   * Returns a copy of the model with the changes applied and cast
+   * The other attributes, e.g. unchanged nested models, are shared with this
+   * model. Works for immutable models too. Only the changed values are
+   * linked to the copy, the shared ones keep bubbling to this model
+   */
+  with(changes: Record<string, any>): this {
+    const Constructor = this.constructor as new () => this
+    const copy = new Constructor()
+    copy._data = { ...this._data }
+    copy._original = { ...this._original }
+
+    copy._initialized = false
+    copy.setAttributes(changes)
+    copy._initialized = true
+    copy.freezeAttributes(changes)
+    return copy
+  }
+
+  // Hydrates the attributes like setAttributes(), with the setters cached by
+  // the class. Nothing is emitted while the model is built
+  private fillAttributes(
+    attributes: Record<string, any> | undefined | null,
+    setters: Map<string, AttributeSetter>
+  ): void {
+    if (!attributes || typeof attributes !== 'object') {
+      return
+    }
+
+    const prototype = Object.getPrototypeOf(this)
+    Object.keys(attributes).forEach((key) => {
+      let setter = setters.get(key)
+      if (!setter) {
+        setter = attributeSetter(prototype, key)
+        setters.set(key, setter)
+      }
+      setter(this, attributes[key])
+    })
+    if (this.isObserved()) {
+      this.linkAttributes()
+    }
+  }
+
+  // The default of an unset attribute, e.g. `false` for booleans, is also
+  // its original value: reading it is not a change
+  private fillDefault(key: string): void {
+    const defaultMethod = `_default_${key}`
+    const value =
+      typeof (this as any)[defaultMethod] === 'function'
+        ? (this as any)[defaultMethod]()
+        : this.castAttribute(key, null)
+    this._data[key] = value
+    if (!(key in this._original)) {
+      this._original[key] = copyValue(value)
+    }
+    this.linkAttribute(key)
+    this.freezeAttributes()
+  }
+
+  // Immutable models can only be changed while they are built
+  private isFrozen(): boolean {
+    return this._initialized && !!(this as any)._immutable
+  }
+
+  // The collections of immutable models can't be changed in place either.
+  // Collections passed in as they are still belong to the caller, the model
+  // freezes a copy of them
+  private freezeAttributes(attributes?: Record<string, any> | null): void {
+    if (!this.isFrozen()) {
+      return
+    }
+    Object.entries(this._data).forEach(([key, value]) => {
+      if (!(value instanceof BaseCollection) || value.isFrozen()) {
+        return
+      }
+      if (attributes && attributes[key] === value) {
+        this._data[key] = value.withAdded().freeze()
+        this.linkAttribute(key)
+      } else {
+        value.freeze()
+      }
+    })
+  }
+
+  private assertMutable(key?: string): void {
+    if (this.isFrozen()) {
+      const attribute = key === undefined ? 'the attributes' : `"${key}"`
+      throw new Error(
+        `Cannot change ${attribute} of an immutable model, use with() instead`
+      )
+    }
+  }
+
+  // Whether the changes of the model are listened to
+  private isObserved(): boolean {
+    const observers: Emitter | undefined = (this as any)._observers
+    return !!this._events?.has('change') || !!observers?.has('change')
+  }
+
+  private attributeChanged(key: string, oldValue: any): void {
+    const value = this._data[key]
+    if (value !== oldValue) {
+      this.linkAttribute(key)
+    }
+    if (
+      this._initialized &&
+      this.isObserved() &&
+      !isEqualValue(value, oldValue)
+    ) {
+      this.emitChange(key, { target: this, path: key, value, oldValue })
+    }
+  }
+
+  private emitChange(key: string, event: Partial<ModelEvent>): void {
+    this.emit(`change:${key}`, event)
+    this.emit('change', event)
+  }
+
+  private linkAttributes(): void {
+    Object.keys(this._data).forEach((key) => this.linkAttribute(key))
+  }
+
+  // Re-emits the changes of the nested model or collection of an attribute
+  private linkAttribute(key: string): void {
+    const value = this._data[key]
+    const link = this._links?.get(key)
+    if (link && link[0] === value) {
+      return
+    }
+    if (link) {
+      link[0].off('change', link[1])
+      this._links?.delete(key)
+    }
+    if (!isObservable(value) || !this.isObserved()) {
+      return
+    }
+
+    const listener = (event: ModelEvent) => {
+      this.emitChange(key, { ...event, path: `${key}.${event.path}` })
+    }
+    value.on('change', listener)
+    if (!this._links) {
+      this._links = new Map()
+    }
+    this._links.set(key, [value, listener])
+  }
+
+  private dirtyKeys(): string[] {
+    const keys = new Set([
+      ...Object.keys(this._data),
+      ...Object.keys(this._original),
+    ])
+    return [...keys].filter((key) => this.isDirty(key))
+  }
+
+  /**
+   * Checks the attributes against the validation rules of their props and
+   * validates nested models and collection items
+   * Resolves to the error messages keyed by attribute path, e.g.
+   * `{ 'items.2.price': ['must be at least 0'] }`, empty for valid models
+   */
+  validate(): Promise<ValidationErrors> {
+    const rules = (this as any)._propertyRules || {}
+    return validateAttributes(this, this._data, rules)
+  }
+
   theId(): unknown {
     return (
       (this as any)[this._idAttribute] || this._data[this._idAttribute] || null
@@ -78,6 +614,7 @@ export default class BaseModel {
   }
 
   toJSON(): Record<string, any> {
+    this.emit('serializing')
     const result: Record<string, any> = {}
 
     // Get all property names, including those from prototype
@@ -90,7 +627,10 @@ export default class BaseModel {
         return
       }
 
-      result[prop] = this.serializeAttribute(prop)
+      const value = this.serializeAttribute(prop)
+      if (value !== undefined) {
+        result[prop] = value
+      }
     })
 
     return result
@@ -0,0 +1,219 @@
+export type RoundingMode =
+  | 'up'
+  | 'down'
+  | 'ceiling'
+  | 'floor'
+  | 'half-up'
+  | 'half-down'
+  | 'half-even'
+
+export type DecimalValue = BigDecimal | string | number | bigint
+
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const TWO = BigInt(2)
+const TEN = BigInt(10)
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i
+
+function pow10(exponent: number): bigint {
+  return TEN ** BigInt(exponent)
+}
+
+function abs(value: bigint): bigint {
+  return value < ZERO ? -value : value
+}
+
+// Integer division of numerator by denominator, rounded with the given mode
+function divideRounded(
+  numerator: bigint,
+  denominator: bigint,
+  mode: RoundingMode
+): bigint {
+  const quotient = numerator / denominator
+  const remainder = numerator % denominator
+  if (remainder === ZERO) {
+    return quotient
+  }
+
+  const positive = numerator < ZERO === denominator < ZERO
+  const half = abs(remainder) * TWO
+  const comparison =
+    half === abs(denominator) ? 0 : half > abs(denominator) ? 1 : -1
+
+  let awayFromZero: boolean
+  switch (mode) {
+    case 'up':
+      awayFromZero = true
+      break
+    case 'down':
+      awayFromZero = false
+      break
+    case 'ceiling':
+      awayFromZero = positive
+      break
+    case 'floor':
+      awayFromZero = !positive
+      break
+    case 'half-down':
+      awayFromZero = comparison > 0
+      break
+    case 'half-even':
+      awayFromZero =
+        comparison > 0 || (comparison === 0 && abs(quotient) % TWO === ONE)
+      break
+    default:
+      awayFromZero = comparison >= 0
+  }
+
+  if (!awayFromZero) {
+    return quotient
+  }
+  return positive ? quotient + ONE : quotient - ONE
+}
+
+/**
+ * Immutable arbitrary-precision decimal number
+ * Stored as an unscaled BigInt and a scale, i.e. units / 10^scale
+ */
+export default class BigDecimal {
+  readonly units: bigint
+  readonly scale: number
+
+  constructor(units: bigint, scale: number = 0) {
+    this.units = units
+    this.scale = scale
+  }
+
+  static from(value: DecimalValue): BigDecimal {
+    if (value instanceof BigDecimal) {
+      return value
+    }
+    if (typeof value === 'bigint') {
+      return new BigDecimal(value, 0)
+    }
+    if (typeof value === 'number' && !isFinite(value)) {
+      throw new Error(`"${value}" is not a valid decimal`)
+    }
+
+    const match = DECIMAL_PATTERN.exec(String(value).trim())
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`"${value}" is not a valid decimal`)
+    }
+
+    const [, sign, integer = '', fraction = '', exponent = '0'] = match
+    let digits = integer + fraction
+    let scale = fraction.length - parseInt(exponent, 10)
+    if (scale < 0) {
+      digits += '0'.repeat(-scale)
+      scale = 0
+    }
+
+    const units = BigInt(digits || '0')
+    return new BigDecimal(sign === '-' ? -units : units, scale)
+  }
+
+  // Both values scaled to the larger of the two scales
+  private align(other: DecimalValue): [bigint, bigint, number] {
+    const decimal = BigDecimal.from(other)
+    const scale = Math.max(this.scale, decimal.scale)
+    return [
+      this.units * pow10(scale - this.scale),
+      decimal.units * pow10(scale - decimal.scale),
+      scale,
+    ]
+  }
+
+  plus(other: DecimalValue): BigDecimal {
+    const [left, right, scale] = this.align(other)
+    return new BigDecimal(left + right, scale)
+  }
+
+  minus(other: DecimalValue): BigDecimal {
+    const [left, right, scale] = this.align(other)
+    return new BigDecimal(left - right, scale)
+  }
+
+  times(other: DecimalValue): BigDecimal {
+    const decimal = BigDecimal.from(other)
+    return new BigDecimal(
+      this.units * decimal.units,
+      this.scale + decimal.scale
+    )
+  }
+
+  /**
+   * Divides to the given scale, which defaults to the scale of this number
+   */
+  dividedBy(
+    other: DecimalValue,
+    scale: number = this.scale,
+    mode: RoundingMode = 'half-up'
+  ): BigDecimal {
+    const divisor = BigDecimal.from(other)
+    if (divisor.units === ZERO) {
+      throw new Error('Division by zero')
+    }
+
+    // units / 10^scale = (a / 10^sa) / (b / 10^sb)
+    const exponent = scale - this.scale + divisor.scale
+    const numerator = exponent >= 0 ? this.units * pow10(exponent) : this.units
+    const denominator =
+      exponent >= 0 ? divisor.units : divisor.units * pow10(-exponent)
+
+    return new BigDecimal(divideRounded(numerator, denominator, mode), scale)
+  }
+
+  round(scale: number, mode: RoundingMode = 'half-up'): BigDecimal {
+    if (scale >= this.scale) {
+      return new BigDecimal(this.units * pow10(scale - this.scale), scale)
+    }
+    const units = divideRounded(this.units, pow10(this.scale - scale), mode)
+    return new BigDecimal(units, scale)
+  }
+
+  negate(): BigDecimal {
+    return new BigDecimal(-this.units, this.scale)
+  }
+
+  abs(): BigDecimal {
+    return this.isNegative() ? this.negate() : this
+  }
+
+  compare(other: DecimalValue): -1 | 0 | 1 {
+    const [left, right] = this.align(other)
+    return left === right ? 0 : left > right ? 1 : -1
+  }
+
+  equals(other: DecimalValue): boolean {
+    return this.compare(other) === 0
+  }
+
+  isZero(): boolean {
+    return this.units === ZERO
+  }
+
+  isNegative(): boolean {
+    return this.units < ZERO
+  }
+
+  toNumber(): number {
+    return Number(this.toString())
+  }
+
+  toString(): string {
+    const digits = abs(this.units)
+      .toString()
+      .padStart(this.scale + 1, '0')
+    const sign = this.isNegative() ? '-' : ''
+    if (this.scale === 0) {
+      return sign + digits
+    }
+
+    const point = digits.length - this.scale
+    return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`
+  }
+
+  toJSON(): string {
+    return this.toString()
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Error thrown by CastingManager when a value cannot be cast in strict mode
+ * Carries the type spec, the offending value and the property path
+ */
+export default class CastError extends Error {
+  readonly type: string
+  readonly value: any
+  readonly path: string
+  readonly cause: unknown
+
+  constructor(type: string, value: any, path: string = '', cause?: unknown) {
+    const reason = cause instanceof Error ? cause.message : 'invalid value'
+    const location = path ? ` at "${path}"` : ''
+    super(`Cannot cast value to "${type}"${location}: ${reason}`)
+    this.name = 'CastError'
+    this.type = type
+    this.value = value
+    this.path = path
+    this.cause = cause
+  }
+}
@@ -1,129 +1,399 @@
 import BaseModel from './BaseModel'
 import BaseCollection from './BaseCollection'
+import CastError from './CastError'
+import AsyncCastSession from './AsyncCastSession'
+import {
+  TypeSpec,
+  TypeParam,
+  parseTypeSpec,
+  formatTypeSpec,
+} from './TypeParser'
+import { isNullable, elementSpec } from './casters/helpers'
+import {
+  asRecord,
+  serializeRecord,
+  asMap,
+  serializeMap,
+  asSet,
+  serializeSet,
+  asTuple,
+  serializeTuple,
+} from './casters/structures'
+import {
+  asDate,
+  serializeDate,
+  asDateTime,
+  serializeDateTime,
+} from './casters/dates'
+import {
+  asBigDecimal,
+  serializeBigDecimal,
+  asMoney,
+  serializeMoney,
+} from './casters/decimals'
+import {
+  asNumber,
+  serializeNumber,
+  asDecimal,
+  serializeDecimal,
+  asInteger,
+  serializeInteger,
+} from './casters/numbers'
+import {
+  asUuid,
+  serializeUuid,
+  asEmail,
+  serializeEmail,
+  asUrl,
+  serializeUrl,
+  asJson,
+  serializeJson,
+  asBytes,
+  serializeBytes,
+} from './casters/formats'
+import { trim, lowercase, uppercase, clamp } from './casters/transformers'
 
-type CastFunction = (this: CastingManager, value: any, params?: string[]) => any
-type SerializeFunction = (
+export interface CastContext {
+  strict: boolean
+  path: string
+}
+
+export interface CastOptions {
+  strict?: boolean
+  path?: string
+  // Null and undefined are cast to null, like a `type?` spec
+  nullable?: boolean
+  // Null and undefined are rejected
+  required?: boolean
+}
+
+export interface AsyncCastOptions extends CastOptions {
+  // The maximum number of async casters running at once
+  concurrency?: number
+}
+
+export type CastResult<T> =
+  | { ok: true; value: T; error: null }
+  | { ok: false; value: undefined; error: CastError }
+
+export interface EnumMember {
+  value: string | number
+  label: string
+}
+
+// A list of values, or a map of labels to values
+export type EnumDefinition =
+  | Array<string | number>
+  | Record<string, string | number>
+
+// Strings recognized by the boolean type, compared ignoring case
+export interface BooleanTokens {
+  truthy: string[]
+  falsy: string[]
+}
+
+// How a type got into the registry
+export type TypeOrigin =
+  | 'built-in'
+  | 'custom'
+  | 'enum'
+  | 'model'
+  | 'class'
+  | 'alias'
+
+export interface TypeDescription {
+  // The name the type was registered with
+  name: string
+  // The params of the described spec, e.g. ['2'] for `decimal:2`
+  params: TypeParam[]
+  caster: CastFunction | null
+  serializer: SerializeFunction | null
+  origin: TypeOrigin
+  // Registered on a parent manager
+  inherited: boolean
+  // The type an alias resolves to
+  target?: string
+}
+
+// Conversions of a class registered as a type
+export interface ClassTypeOptions<T> {
+  // Creates an instance from a plain value, instead of `new Class(value)`
+  fromJSON?: (value: any, params: TypeParam[]) => T
+  // Serializes an instance, instead of its own toJSON()
+  toJSON?: (instance: T, params: TypeParam[]) => any
+}
+
+// A cast function compiled by `compile()`
+export type CompiledCast<T = any> = ((value: any) => T) & {
+  // Whether a caster is registered for the type
+  canCast: () => boolean
+}
+
+interface CastPlan {
+  spec: TypeSpec | null
+  pipeline: TypeSpec[]
+  castFn?: CastFunction
+  error?: Error
+}
+
+interface Transformer {
+  transform: TransformFunction
+  // Undoes the transform on serialize
+  reverse?: TransformFunction
+}
+
+interface Registration {
+  name: string
+  origin: TypeOrigin
+  target?: string
+}
+
+export interface CastingManagerOptions {
+  strict?: boolean
+  // Default timezone of date types: 'UTC', 'local' or an IANA name
+  timezone?: string
+  // Default locale of numeric types, e.g. 'de-DE' to read "1.234,56"
+  locale?: string
+  // Replaces the default truthy and/or falsy tokens of the boolean type
+  booleans?: Partial<BooleanTokens>
+}
+
+export type CastFunction = (
+  this: CastingManager,
+  value: any,
+  params?: TypeParam[],
+  context?: CastContext
+) => any
+export type AsyncCastFunction = (
+  this: CastingManager,
+  value: any,
+  params?: TypeParam[],
+  context?: CastContext
+) => Promise<any>
+export type TransformFunction = (
+  this: CastingManager,
+  value: any,
+  params?: TypeParam[]
+) => any
+export type SerializeFunction = (
   this: CastingManager,
   value: any,
-  params?: string[]
+  params?: TypeParam[]
 ) => any
 
-function isNullable(value: any) {
-  return value === null || value === undefined
+const DEFAULT_CONCURRENCY = 8
+
+// Objects such as models serialize themselves when no serializer is registered
+function hasToJSON(value: any): boolean {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof value.toJSON === 'function' &&
+    !(value instanceof Date) &&
+    !(value instanceof Array)
+  )
 }
 
-// Built-in casters with serialization support
-function asNumber(value: any) {
-  if (isNullable(value)) {
-    return null
-  }
-  if (typeof value === 'number') return value
-  const num = Number(value)
-  return isNaN(num) ? 0 : num
+// Flags of model types, e.g. `user:id` or `userCollection:id:omitEmpty`
+function hasFlag(params: TypeParam[], flag: string): boolean {
+  return params.some(
+    (param) => formatTypeSpec(param).toLowerCase() === flag.toLowerCase()
+  )
 }
 
-function asDecimal(value: any, params: string[] = ['2']) {
-  if (isNullable(value)) {
-    return null
-  }
-  const precision = parseInt(params[0] || '2', 10)
-  const num = parseFloat(value)
-  return isNaN(num) ? 0 : Number(num.toFixed(precision))
+function joinPath(parent: string, path?: string): string {
+  if (!path) return parent
+  return parent ? `${parent}.${path}` : path
 }
 
-function asInteger(value: any): number | null {
-  return asDecimal(value, ['0'])
+const DEFAULT_BOOLEANS: BooleanTokens = {
+  truthy: ['true', '1', 'yes', 'y', 'on'],
+  falsy: ['false', '0', 'no', 'n', 'off', ''],
 }
 
-function asBoolean(value: any) {
+function normalizeTokens(tokens: string[] | undefined, defaults: string[]) {
+  return (tokens || defaults).map((token) => token.trim().toLowerCase())
+}
+
+// Unknown strings fall back to `!!value`, unless the cast is strict
+function toBoolean(value: any, tokens: BooleanTokens, context?: CastContext) {
+  if (typeof value !== 'string') {
+    return !!value
+  }
+
+  const token = value.trim().toLowerCase()
+  if (tokens.truthy.includes(token)) {
+    return true
+  }
+  if (tokens.falsy.includes(token)) {
+    return false
+  }
+
+  if (context?.strict) {
+    throw new Error(`"${value}" is not a valid boolean`)
+  }
   return !!value
 }
+
+const asBoolean: CastFunction = function (
+  value: any,
+  params?: TypeParam[],
+  context?: CastContext
+) {
+  return toBoolean(value, this.booleans, context)
+}
+
+const serializeBoolean: SerializeFunction = function (value: any) {
+  return isNullable(value) ? null : toBoolean(value, this.booleans)
+}
+
 function asString(value: any) {
   return value === null || value === undefined ? null : String(value)
 }
 
 const asArray: CastFunction = function (
   value: any[],
-  params: string[] = []
+  params: TypeParam[] = []
 ): any[] {
+  if (isNullable(value)) {
+    return []
+  }
+
   if (!Array.isArray(value)) {
     value = [value]
   }
 
-  if (params[0]) {
-    const elementType: string = params[0]
-    return value.map((item) => this.cast(item, elementType))
+  const elementType = elementSpec(params)
+  if (elementType) {
+    return value.map((item, index) =>
+      this.cast(item, elementType, { path: String(index) })
+    )
   }
 
   return value
 }
 
-const serializeArray: CastFunction = function (
+const serializeArray: SerializeFunction = function (
   value: any,
-  params: string[] = []
+  params: TypeParam[] = []
 ) {
   if (!Array.isArray(value)) {
     return []
   }
 
-  if (params[0]) {
-    const elementType = params[0]
+  const elementType = elementSpec(params)
+  if (elementType) {
     return value.map((item) => this.serialize(item, elementType))
   }
 
   return value
 }
 
-function asDate(value: any) {
-  if (isNullable(value)) {
-    return null
+// Members are tried in order, the first one that casts strictly wins
+const asUnion: CastFunction = function (value: any, params: TypeParam[] = []) {
+  for (const member of params) {
+    const result = this.tryCast(value, member)
+    if (result.ok) {
+      return result.value
+    }
   }
-  if (value instanceof Date) return value
-  return new Date(value)
+
+  const members = params.map(formatTypeSpec).join(', ')
+  throw new Error(`value does not match any of ${members}`)
 }
 
-function serializeDate(value: any) {
-  if (isNullable(value)) {
-    return null
-  }
-  if (!(value instanceof Date)) {
-    value = new Date(value)
-  }
-  return value.toISOString().split('T')[0]
+const serializeUnion: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  const member = params.find((type) => this.tryCast(value, type).ok)
+  return member === undefined ? value : this.serialize(value, member)
 }
 
-function asDateTime(value: any) {
-  if (isNullable(value)) {
-    return null
+function toEnumMembers(definition: EnumDefinition): EnumMember[] {
+  if (Array.isArray(definition)) {
+    return definition.map((value) => ({ value, label: String(value) }))
   }
-  if (value instanceof Date) return value
-  return new Date(value)
+  return Object.entries(definition).map(([label, value]) => ({ value, label }))
 }
 
-function serializeDateTime(value: any) {
+// Matches the value first, then the value and the label ignoring case
+function castEnum(value: any, members: EnumMember[]) {
   if (isNullable(value)) {
     return null
   }
-  if (!(value instanceof Date)) {
-    value = new Date(value)
+
+  const exact = members.find((member) => member.value === value)
+  if (exact) {
+    return exact.value
+  }
+
+  const needle = String(value).trim().toLowerCase()
+  const member =
+    members.find((m) => String(m.value).toLowerCase() === needle) ||
+    members.find((m) => m.label.toLowerCase() === needle)
+
+  if (!member) {
+    const allowed = members.map((m) => m.value).join(', ')
+    throw new Error(`"${value}" is not one of ${allowed}`)
   }
-  return value.toISOString()
+
+  return member.value
+}
+
+const asEnum: CastFunction = function (value: any, params: TypeParam[] = []) {
+  return castEnum(value, this.getEnumMembers({ name: 'enum', params }) || [])
+}
+
+function serializeEnum(value: any) {
+  return value
 }
 
 export default class CastingManager {
   private casters: Map<string, CastFunction> = new Map()
   private serializers: Map<string, SerializeFunction> = new Map()
+  private parsedTypes: Map<string, TypeSpec> = new Map()
+  private enums: Map<string, EnumMember[]> = new Map()
+  private registrations: Map<string, Registration> = new Map()
+  private transformers: Map<string, Transformer> = new Map()
+  private readonly strict: boolean
+  readonly parent: CastingManager | null
+  readonly timezone: string
+  readonly locale?: string
+  readonly booleans: BooleanTokens
+  // Bumped on every change of the registry, to refresh compiled casts
+  private revision: number = 0
+  // Context of the cast currently in progress, inherited by nested casts
+  private context: CastContext | null = null
+  // Collects and resolves the async casts of `castAsync()` and `runAsync()`
+  private asyncSession: AsyncCastSession | null = null
 
-  constructor() {
-    this.register('bool', asBoolean)
-    this.register('boolean', asBoolean)
-    this.register('number', asNumber)
-    this.register('integer', asInteger)
-    this.register('decimal', asDecimal)
-    this.register('string', asString)
-    this.register('array', asArray, serializeArray)
-    this.register('date', asDate, serializeDate)
-    this.register('datetime', asDateTime, serializeDateTime)
+  constructor(
+    options: CastingManagerOptions = {},
+    parent: CastingManager | null = null
+  ) {
+    this.parent = parent
+    this.strict = options.strict ?? parent?.strict ?? false
+    this.timezone = options.timezone || parent?.timezone || 'UTC'
+    this.locale = options.locale || parent?.locale
+    const booleans = parent?.booleans || DEFAULT_BOOLEANS
+    this.booleans = {
+      truthy: normalizeTokens(options.booleans?.truthy, booleans.truthy),
+      falsy: normalizeTokens(options.booleans?.falsy, booleans.falsy),
+    }
+
+    // Children inherit the built-in casters from their parent
+    if (!parent) {
+      this.registerBuiltInCasters()
+    }
+  }
+
+  /**
+   * Creates a manager that falls back to the casters, serializers and enums
+   * of this one. Registrations on the child don't affect this manager
+   */
+  createChild(options: CastingManagerOptions = {}): CastingManager {
+    return new CastingManager(options, this)
   }
 
   register(
@@ -131,14 +401,187 @@ export default class CastingManager {
     castFn: CastFunction,
     serializeFn?: SerializeFunction
   ): void {
-    type = type.toLowerCase()
-    this.casters.set(type, castFn)
+    const key = type.toLowerCase()
+    this.revision++
+    this.casters.set(key, castFn)
+    this.registrations.set(key, { name: type, origin: 'custom' })
 
     if (serializeFn) {
-      this.serializers.set(type, serializeFn)
+      this.serializers.set(key, serializeFn)
     }
   }
 
+  /**
+   * Registers a transformer, usable after the type in a pipe spec like
+   * `string|trim|lowercase` or `integer|clamp:0:100`
+   * Transformers run in order after the cast, their reverse functions run in
+   * the opposite order before the value is serialized
+   */
+  registerTransformer(
+    name: string,
+    transform: TransformFunction,
+    reverse?: TransformFunction
+  ): this {
+    this.revision++
+    this.transformers.set(name.toLowerCase(), { transform, reverse })
+    return this
+  }
+
+  hasTransformer(name: string): boolean {
+    return this.findTransformer(name.toLowerCase()) !== undefined
+  }
+
+  /**
+   * Registers a caster that resolves values asynchronously, e.g. from an API
+   * The values are awaited by `castAsync()` and `runAsync()`, synchronous
+   * casts keep them as they are
+   */
+  registerAsync(
+    type: string,
+    castFn: AsyncCastFunction,
+    serializeFn?: SerializeFunction
+  ): void {
+    const name = type.toLowerCase()
+    this.register(
+      type,
+      function (value: any, params: TypeParam[] = [], context?: CastContext) {
+        return this.asyncSession
+          ? this.asyncSession.cast(name, castFn, value, params, context)
+          : value
+      },
+      serializeFn
+    )
+  }
+
+  /**
+   * Makes `alias` an alternative name of the `target` type
+   * Aliases follow the target, also when it is re-registered later
+   */
+  alias(alias: string, target: string): this {
+    const key = alias.toLowerCase()
+    const targetKey = target.toLowerCase()
+    if (!this.findRegistration(targetKey)) {
+      throw new Error(`Cannot alias unknown type "${target}"`)
+    }
+    if (this.resolve(targetKey) === key) {
+      throw new Error(`Alias "${alias}" cannot refer to itself`)
+    }
+
+    this.unregister(alias)
+    this.revision++
+    this.registrations.set(key, {
+      name: alias,
+      origin: 'alias',
+      target: targetKey,
+    })
+
+    return this
+  }
+
+  /**
+   * Removes a type registered on this manager
+   * Types inherited from a parent manager are not affected
+   */
+  unregister(type: string): boolean {
+    const key = type.toLowerCase()
+    this.revision++
+    this.casters.delete(key)
+    this.serializers.delete(key)
+    this.enums.delete(key)
+    return this.registrations.delete(key)
+  }
+
+  /**
+   * The names of all registered types, including inherited ones
+   */
+  listTypes(): string[] {
+    const inherited = this.parent ? this.parent.listTypes() : []
+    const names = new Map(inherited.map((name) => [name.toLowerCase(), name]))
+    this.registrations.forEach((registration, key) => {
+      names.set(key, registration.name)
+    })
+
+    return Array.from(names.values()).sort((a, b) => a.localeCompare(b))
+  }
+
+  /**
+   * Describes the type of a spec, or returns null for unknown types
+   */
+  describe(typeSpec: TypeParam): TypeDescription | null {
+    let spec: TypeSpec
+    try {
+      spec = this.parseType(typeSpec)
+    } catch {
+      return null
+    }
+
+    const key = spec.name.toLowerCase()
+    const registration = this.findRegistration(key)
+    if (!registration) {
+      return null
+    }
+
+    const description: TypeDescription = {
+      name: registration.name,
+      params: spec.params,
+      caster: this.findCaster(key) || null,
+      serializer: this.findSerializer(key) || null,
+      origin: registration.origin,
+      inherited: !this.registrations.has(key),
+    }
+    if (registration.target) {
+      description.target = this.resolve(key)
+    }
+
+    return description
+  }
+
+  /**
+   * Registers a named enum, usable as `Type` or `enum:Type`
+   */
+  registerEnum(type: string, definition: EnumDefinition): this {
+    const members = toEnumMembers(definition)
+    this.enums.set(type.toLowerCase(), members)
+    this.register(
+      type,
+      function (value: any) {
+        return castEnum(value, members)
+      },
+      serializeEnum
+    )
+    this.setOrigin(type, 'enum')
+
+    return this
+  }
+
+  /**
+   * The allowed members of an enum type, or null for other types
+   */
+  getEnumMembers(typeSpec: TypeParam): EnumMember[] | null {
+    let spec: TypeSpec
+    try {
+      spec = this.parseType(typeSpec)
+    } catch {
+      return null
+    }
+
+    const name = spec.name.toLowerCase()
+    if (name !== 'enum') {
+      return this.findEnum(name) || null
+    }
+
+    // Inline values (enum:draft,published) or a named enum (enum:OrderStatus)
+    const values = spec.params
+      .map((param) => formatTypeSpec(param).split(','))
+      .reduce((all, part) => all.concat(part), [] as string[])
+      .map((value) => value.trim())
+      .filter((value) => value !== '')
+
+    const named =
+      values.length === 1 ? this.findEnum(values[0].toLowerCase()) : undefined
+    return named || toEnumMembers(values)
+  }
+
   registerModel(
     type: string,
     ModelClass: typeof BaseModel,
@@ -155,86 +598,508 @@ export default class CastingManager {
 
       return new ModelClass(value)
     }
-    this.register(type, castFn)
 
-    if (!CollectionClass) {
-      CollectionClass = BaseCollection
+    return this.registerModelTypes(type, castFn, CollectionClass)
+  }
+
+  /**
+   * Registers any class, e.g. a value object, as a type
+   * Instances are kept as they are, other values are converted by `fromJSON`,
+   * the static `Class.fromJSON()` or the constructor
+   */
+  registerClass<T>(
+    type: string,
+    Class: new (...args: any[]) => T,
+    options: ClassTypeOptions<T> = {}
+  ): this {
+    const { fromJSON, toJSON } = options
+    const staticFromJSON = (Class as any).fromJSON
+    const castFn = function (value: any, params: TypeParam[] = []): T | null {
+      if (isNullable(value)) {
+        return null
+      }
+      if (value instanceof Class) {
+        return value
+      }
+
+      if (fromJSON) {
+        return fromJSON(value, params)
+      }
+      return typeof staticFromJSON === 'function'
+        ? staticFromJSON.call(Class, value)
+        : new Class(value)
     }
 
-    this.register(`${type}Collection`, function (value) {
-      if (value === null || value === undefined) {
-        // @ts-expect-error CollectionClass exists
-        return new CollectionClass([], castFn)
+    const serializeFn = function (value: any, params: TypeParam[] = []) {
+      const instance: any = castFn(value, params)
+      if (instance === null) {
+        return null
+      }
+      if (toJSON) {
+        return toJSON(instance, params)
       }
+      return typeof instance.toJSON === 'function'
+        ? instance.toJSON()
+        : instance
+    }
+
+    this.register(type, castFn, serializeFn)
+    this.setOrigin(type, 'class')
 
-      // @ts-expect-error CollectionClass exists
-      if (value instanceof CollectionClass) {
+    return this
+  }
+
+  /**
+   * Registers a model type whose class is picked by a discriminator field,
+   * e.g. `registerPolymorphic('Payment', 'kind', { card: CardPayment })`
+   * The collection type hydrates mixed items
+   */
+  registerPolymorphic(
+    type: string,
+    field: string,
+    classes: Record<string, typeof BaseModel>,
+    CollectionClass?: typeof BaseCollection
+  ): this {
+    const ModelClasses = Object.values(classes)
+    const castFn = function (value: any) {
+      if (isNullable(value)) {
+        return null
+      }
+      if (ModelClasses.some((ModelClass) => value instanceof ModelClass)) {
         return value
       }
 
-      // @ts-expect-error CollectionClass exists
-      return new CollectionClass(value, castFn)
+      const kind = value[field]
+      if (isNullable(kind)) {
+        throw new Error(`missing discriminator "${field}"`)
+      }
+      // Inherited keys like `constructor` are not kinds
+      const ModelClass = Object.prototype.hasOwnProperty.call(classes, kind)
+        ? classes[kind]
+        : undefined
+      if (!ModelClass) {
+        const kinds = Object.keys(classes).join(', ')
+        throw new Error(`unknown ${field} "${kind}", expected one of ${kinds}`)
+      }
+
+      return new ModelClass(value)
+    }
+
+    return this.registerModelTypes(type, castFn, CollectionClass)
+  }
+
+  /**
+   * Parses a type spec, caching the result for string specs
+   */
+  parseType(typeSpec: TypeParam): TypeSpec {
+    if (typeof typeSpec !== 'string') {
+      return typeSpec
+    }
+
+    let parsed = this.parsedTypes.get(typeSpec)
+    if (!parsed) {
+      parsed = parseTypeSpec(typeSpec)
+      this.parsedTypes.set(typeSpec, parsed)
+    }
+    return parsed
+  }
+
+  cast<T = any>(value: any, typeSpec: TypeParam, options: CastOptions = {}): T {
+    return this.castWithPlan(value, typeSpec, this.planFor(typeSpec), options)
+  }
+
+  /**
+   * Compiles a type spec into a cast function, for casting many values to
+   * the same type. The spec is parsed and its caster resolved once, and again
+   * only after types are registered or removed
+   */
+  compile<T = any>(
+    typeSpec: TypeParam,
+    options: CastOptions = {}
+  ): CompiledCast<T> {
+    let plan = this.planFor(typeSpec)
+    let revision = this.registryRevision()
+    const currentPlan = (): CastPlan => {
+      const current = this.registryRevision()
+      if (revision !== current) {
+        plan = this.planFor(typeSpec)
+        revision = current
+      }
+      return plan
+    }
+
+    const compiled = (value: any): T =>
+      this.castWithPlan(value, typeSpec, currentPlan(), options)
+    return Object.assign(compiled, {
+      canCast: () => currentPlan().castFn !== undefined,
     })
+  }
 
-    return this
+  // Parses the spec and resolves its caster, keeping errors for cast time
+  private planFor(typeSpec: TypeParam): CastPlan {
+    try {
+      const [spec, pipeline] = this.splitPipeline(this.parseType(typeSpec))
+      const castFn = this.findCaster(spec.name.toLowerCase())
+      return { spec, pipeline, castFn }
+    } catch (error) {
+      return { spec: null, pipeline: [], error: error as Error }
+    }
   }
 
-  cast<T = any>(value: any, typeSpec: string): T {
-    const [type, ...params] = typeSpec.split(':')
-    const castFn = this.casters.get(type.toLowerCase())
+  private castWithPlan(
+    value: any,
+    typeSpec: TypeParam,
+    plan: CastPlan,
+    options: CastOptions
+  ): any {
+    const parent = this.context
+    const context: CastContext = {
+      strict: options.strict ?? parent?.strict ?? this.strict,
+      path: joinPath(parent ? parent.path : '', options.path),
+    }
+
+    const { spec, pipeline, castFn, error } = plan
+    if (!spec) {
+      return this.fail(error, value, typeSpec, context, error?.message)
+    }
+
+    if (isNullable(value)) {
+      if (options.required) {
+        const message = `A value is required for ${formatTypeSpec(spec)}`
+        const error = new Error('a value is required')
+        return this.fail(error, value, typeSpec, context, message)
+      }
+      if (spec.nullable || options.nullable) {
+        return null
+      }
+    }
 
     if (!castFn) {
-      console.error(`No caster found for type: ${type}`)
-      return value
+      const message = `No caster found for type: ${spec.name}`
+      return this.fail(new Error(message), value, typeSpec, context, message)
     }
 
+    this.context = context
     try {
       // Call the cast function with this CastingManager as context
-      return castFn.call(this, value, params)
+      const result = castFn.call(this, value, spec.params, context)
+      return this.transform(result, pipeline)
     } catch (error) {
-      console.error(`Error casting value to ${type}:`, error)
-      return value
+      const message = `Error casting value to ${spec.name}:`
+      return this.fail(error, value, typeSpec, context, message, error)
+    } finally {
+      this.context = parent
+    }
+  }
+
+  // Strict casts throw, the others log and keep the original value
+  private fail(
+    error: unknown,
+    value: any,
+    typeSpec: TypeParam,
+    context: CastContext,
+    ...log: any[]
+  ): any {
+    if (context.strict) {
+      throw error instanceof CastError
+        ? error
+        : new CastError(formatTypeSpec(typeSpec), value, context.path, error)
     }
+    console.error(...log)
+    return value
+  }
+
+  /**
+   * Casts a value, awaiting the async casters of the value and its nested values
+   */
+  castAsync<T = any>(
+    value: any,
+    typeSpec: TypeParam,
+    options: AsyncCastOptions = {}
+  ): Promise<T> {
+    return this.runAsync(
+      () => this.cast<T>(value, typeSpec, options),
+      options.concurrency
+    )
   }
 
-  hasCaster(type: string) {
-    return this.casters.get(type.toLowerCase()) !== undefined
+  /**
+   * Runs a synchronous factory, e.g. a model constructor, with the values of
+   * async types resolved. The factory runs twice: once to collect the values
+   * and once to build the result with the resolved values
+   */
+  async runAsync<T>(
+    factory: () => T,
+    concurrency: number = DEFAULT_CONCURRENCY
+  ): Promise<T> {
+    const session = new AsyncCastSession(this)
+    this.withSession(session, factory)
+    await session.resolve(concurrency)
+    return this.withSession(session, factory)
   }
 
-  serialize(value: any, typeSpec: string): any {
-    if (
-      value !== null &&
-      typeof value === 'object' &&
-      typeof value.toJSON === 'function' &&
-      !(value instanceof Date) &&
-      !(value instanceof Array)
-    ) {
-      return value.toJSON()
+  /**
+   * Casts in strict mode and reports the outcome instead of throwing
+   */
+  tryCast<T = any>(
+    value: any,
+    typeSpec: TypeParam,
+    options: CastOptions = {}
+  ): CastResult<T> {
+    try {
+      const result = this.cast<T>(value, typeSpec, { ...options, strict: true })
+      return { ok: true, value: result, error: null }
+    } catch (error) {
+      if (error instanceof CastError) {
+        return { ok: false, value: undefined, error }
+      }
+      throw error
     }
+  }
 
-    const [type, ...params] = typeSpec.split(':')
-    const serializeFn = this.serializers.get(type.toLowerCase())
+  hasCaster(type: TypeParam) {
+    return this.findCaster(this.typeName(type)) !== undefined
+  }
 
-    if (type === 'array' && Array.isArray(value)) {
-      return value.map((item: any) => this.serialize(item, params[0]))
+  serialize(value: any, typeSpec: TypeParam): any {
+    let parsed: [TypeSpec, TypeSpec[]]
+    try {
+      parsed = this.splitPipeline(this.parseType(typeSpec))
+    } catch (error) {
+      console.error((error as Error).message)
+      return hasToJSON(value) ? value.toJSON() : value
     }
+    const [spec, pipeline] = parsed
+
+    const serializeFn = this.findSerializer(spec.name.toLowerCase())
 
     if (!serializeFn) {
+      if (hasToJSON(value)) {
+        return value.toJSON()
+      }
       console.info(
-        `No registered serializer for ${type}. Returning value as is.`
+        `No registered serializer for ${spec.name}. Returning value as is.`
       )
-      return value
     }
 
     try {
-      return serializeFn.call(this, value, params)
+      const reversed = this.transform(value, pipeline, true)
+      return serializeFn
+        ? serializeFn.call(this, reversed, spec.params)
+        : reversed
     } catch (error) {
-      console.error(`Error serializing value from ${type}:`, error)
+      console.error(`Error serializing value from ${spec.name}:`, error)
       return value
     }
   }
 
-  hasSerializer(type: string) {
-    return this.serializers.get(type.toLowerCase()) !== undefined
+  hasSerializer(type: TypeParam) {
+    return this.findSerializer(this.typeName(type)) !== undefined
+  }
+
+  // Registrations are looked up on this manager first, then on its parents
+  private findRegistration(type: string): Registration | undefined {
+    return this.registrations.get(type) || this.parent?.findRegistration(type)
+  }
+
+  // Follows aliases to the type they refer to
+  private resolve(type: string): string {
+    const seen: Set<string> = new Set()
+    let registration = this.findRegistration(type)
+    while (registration?.target && !seen.has(type)) {
+      seen.add(type)
+      type = registration.target
+      registration = this.findRegistration(type)
+    }
+    return type
+  }
+
+  private findIn<T>(
+    registry: (manager: CastingManager) => Map<string, T>,
+    type: string
+  ): T | undefined {
+    return registry(this).get(type) || this.parent?.findIn(registry, type)
+  }
+
+  private findCaster(type: string): CastFunction | undefined {
+    return this.findIn((manager) => manager.casters, this.resolve(type))
+  }
+
+  private findSerializer(type: string): SerializeFunction | undefined {
+    return this.findIn((manager) => manager.serializers, this.resolve(type))
+  }
+
+  private findEnum(type: string): EnumMember[] | undefined {
+    return this.findIn((manager) => manager.enums, this.resolve(type))
+  }
+
+  // Changes of a parent also invalidate the compiled casts of its children
+  private registryRevision(): number {
+    return this.revision + (this.parent ? this.parent.registryRevision() : 0)
+  }
+
+  private findTransformer(name: string): Transformer | undefined {
+    return this.findIn((manager) => manager.transformers, name)
+  }
+
+  /**
+   * Splits `string|trim|lowercase` into the type and its transformers
+   * Members of a union that name a transformer are transformers, except
+   * the first one
+   */
+  private splitPipeline(spec: TypeSpec): [TypeSpec, TypeSpec[]] {
+    if (spec.name !== 'union') {
+      return [spec, []]
+    }
+
+    const members = spec.params as TypeSpec[]
+    const types = members.filter(
+      (member, index) =>
+        index === 0 || !this.findTransformer(member.name.toLowerCase())
+    )
+    if (types.length === members.length) {
+      return [spec, []]
+    }
+
+    const pipeline = members.filter((member) => !types.includes(member))
+    const type =
+      types.length === 1
+        ? { ...types[0], nullable: types[0].nullable || spec.nullable }
+        : { ...spec, params: types }
+    return [type, pipeline]
+  }
+
+  // Null values skip the transformers
+  private transform(value: any, pipeline: TypeSpec[], reverse = false): any {
+    if (isNullable(value)) {
+      return value
+    }
+
+    const steps = reverse ? [...pipeline].reverse() : pipeline
+    return steps.reduce((result, step) => {
+      const transformer = this.findTransformer(step.name.toLowerCase())
+      const transformFn = reverse
+        ? transformer?.reverse
+        : transformer?.transform
+      return transformFn ? transformFn.call(this, result, step.params) : result
+    }, value)
+  }
+
+  // Registers the model type, its collection type and their serializers
+  private registerModelTypes(
+    type: string,
+    castFn: (value: any) => BaseModel | null,
+    CollectionClass: typeof BaseCollection = BaseCollection
+  ): this {
+    // `type:id` serializes the id only, values that are not objects are ids
+    const serializeFn = function (value: any, params: TypeParam[] = []) {
+      if (isNullable(value)) {
+        return hasFlag(params, 'omitEmpty') ? undefined : null
+      }
+      if (typeof value !== 'object') {
+        return value
+      }
+
+      const model = castFn(value) as BaseModel
+      return hasFlag(params, 'id') ? model.theId() : model.toJSON()
+    }
+    this.register(type, castFn, serializeFn)
+    this.setOrigin(type, 'model')
+
+    this.register(
+      `${type}Collection`,
+      function (value) {
+        if (value === null || value === undefined) {
+          return new CollectionClass([], castFn)
+        }
+
+        if (value instanceof CollectionClass) {
+          return value
+        }
+
+        // Cast the items here so errors report their index in the path
+        const items = Array.isArray(value)
+          ? value.map((item, index) =>
+              this.cast(item, type, { path: String(index) })
+            )
+          : value
+
+        return new CollectionClass(items, castFn)
+      },
+      // `typeCollection:omitEmpty` leaves empty collections out of the output
+      function (value: any, params: TypeParam[] = []) {
+        const items: any[] = isNullable(value) ? [] : Array.from(value)
+        if (!items.length && hasFlag(params, 'omitEmpty')) {
+          return undefined
+        }
+        if (isNullable(value)) {
+          return null
+        }
+
+        return items.map((item) => serializeFn.call(this, item, params))
+      }
+    )
+    this.setOrigin(`${type}Collection`, 'model')
+
+    return this
+  }
+
+  private withSession<T>(session: AsyncCastSession, factory: () => T): T {
+    const previous = this.asyncSession
+    this.asyncSession = session
+    try {
+      return factory()
+    } finally {
+      this.asyncSession = previous
+    }
+  }
+
+  private setOrigin(type: string, origin: TypeOrigin) {
+    const registration = this.registrations.get(type.toLowerCase())
+    if (registration) {
+      registration.origin = origin
+    }
+  }
+
+  private registerBuiltInCasters() {
+    this.register('bool', asBoolean, serializeBoolean)
+    this.register('boolean', asBoolean, serializeBoolean)
+    this.register('number', asNumber, serializeNumber)
+    this.register('integer', asInteger, serializeInteger)
+    this.register('decimal', asDecimal, serializeDecimal)
+    this.register('string', asString)
+    this.register('array', asArray, serializeArray)
+    this.register('record', asRecord, serializeRecord)
+    this.register('map', asMap, serializeMap)
+    this.register('set', asSet, serializeSet)
+    this.register('tuple', asTuple, serializeTuple)
+    this.register('union', asUnion, serializeUnion)
+    this.register('enum', asEnum, serializeEnum)
+    this.register('date', asDate, serializeDate)
+    this.register('datetime', asDateTime, serializeDateTime)
+    this.register('bigdecimal', asBigDecimal, serializeBigDecimal)
+    this.register('money', asMoney, serializeMoney)
+    this.register('uuid', asUuid, serializeUuid)
+    this.register('email', asEmail, serializeEmail)
+    this.register('url', asUrl, serializeUrl)
+    this.register('json', asJson, serializeJson)
+    this.register('base64', asBytes, serializeBytes)
+    this.register('bytes', asBytes, serializeBytes)
+    this.registrations.forEach((registration, type) =>
+      this.setOrigin(type, 'built-in')
+    )
+    this.registerTransformer('trim', trim)
+    this.registerTransformer('lowercase', lowercase)
+    this.registerTransformer('uppercase', uppercase)
+    this.registerTransformer('clamp', clamp)
+  }
+
+  // The registry key for a type spec, or '' when the spec is malformed
+  private typeName(typeSpec: TypeParam): string {
+    try {
+      return this.splitPipeline(this.parseType(typeSpec))[0].name.toLowerCase()
+    } catch {
+      return ''
+    }
   }
 }
@@ -4,8 +4,15 @@ import BaseCollection from './BaseCollection'
 import timestamps from './mixins/timestamps'
 import softDelete from './mixins/softDelete'
 import methods from './mixins/methods'
+import observers from './mixins/observers'
+import history from './mixins/history'
+import immutable from './mixins/immutable'
+import { ValidationRules } from './validation'
 export interface PropertySchema {
   type: string
+  nullable?: boolean
+  required?: boolean
+  rules?: ValidationRules
   computed?: boolean
   get?: (instance: any) => any
   set?: (instance: any, value: any) => void
@@ -39,16 +46,28 @@ export default class ClassBuilder {
   ): any {
     const castingManager = this.castingManager
 
+    Class.prototype._castingManager = castingManager
+
     Class.prototype._data = Class.prototype._data || {}
 
     Class.prototype._propertyTypes = Class.prototype._propertyTypes || {}
 
+    // Setters looked up by earlier instances don't know the new casters
+    Class.prototype._attributeSetters = null
+
+    // Validation rules of the props, checked by validate()
+    Class.prototype._propertyRules = { ...Class.prototype._propertyRules }
+
     Object.entries(props).forEach(([prop, typeSpec]) => {
       const spec = normalizePropertySchema(typeSpec)
       Class.prototype._propertyTypes[prop] = spec.type
 
       Class.prototype._propertyTypes[prop] = spec.type
 
+      if (spec.rules) {
+        Class.prototype._propertyRules[prop] = spec.rules
+      }
+
       if (spec.get) {
         Class.prototype[`_get_${prop}`] = spec.get
       }
@@ -58,10 +77,27 @@ export default class ClassBuilder {
       }
 
       if (spec.type !== 'any') {
+        // The spec is parsed and its caster resolved now, once per class
+        const castProp = castingManager.compile(spec.type, {
+          path: prop,
+          nullable: spec.nullable,
+          required: spec.required,
+        })
+
         Class.prototype[`_cast_${prop}`] = function (value: any) {
-          return castingManager.hasCaster(spec.type)
-            ? castingManager.cast(value, spec.type)
-            : value
+          return castProp.canCast() ? castProp(value) : value
+        }
+
+        // Required props are checked when assigned, not when an unset prop
+        // is read and gets its default
+        if (spec.required) {
+          const castDefault = castingManager.compile(spec.type, {
+            path: prop,
+            nullable: spec.nullable,
+          })
+          Class.prototype[`_default_${prop}`] = function () {
+            return castDefault.canCast() ? castDefault(null) : null
+          }
         }
       }
 
@@ -91,6 +127,9 @@ export default class ClassBuilder {
     })
 
     Class.prototype.toJSON = function () {
+      if (typeof this.emit === 'function') {
+        this.emit('serializing')
+      }
       const result: Record<string, any> = {}
       const propertyTypes = this._propertyTypes || {}
 
@@ -113,9 +152,14 @@ export default class ClassBuilder {
         }
 
         const propType = propertyTypes[prop]
-        result[prop] = propType
+        const value = propType
           ? castingManager.serialize(this[prop], propType)
           : this[prop]
+
+        // Serializers return undefined to leave a property out
+        if (value !== undefined) {
+          result[prop] = value
+        }
       })
 
       return result
@@ -199,6 +243,10 @@ export default class ClassBuilder {
       }
     }
 
+    // Used by the static hydrate() factory
+    const prototype: any = CustomCollection.prototype
+    prototype._castingManager = this.castingManager
+
     this.withClass(CustomCollection).add('methods', methods)
 
     Object.entries(mixins).forEach(([name, options]) => {
@@ -210,7 +258,10 @@ export default class ClassBuilder {
 
   private registerBuiltInMixins() {
     this.registerMixin('methods', methods)
+    this.registerMixin('observers', observers)
     this.registerMixin('timestamps', timestamps)
     this.registerMixin('softDelete', softDelete)
+    this.registerMixin('history', history)
+    this.registerMixin('immutable', immutable)
   }
 }
@@ -0,0 +1,72 @@
+export interface ModelEvent {
+  type: string
+  // The model or collection that changed, a nested one for bubbled changes
+  target: any
+  // Path of the changed attribute from the emitting model, e.g. `lines.2.price`
+  path: string
+  value?: any
+  oldValue?: any
+}
+
+export type EventListener = (this: any, event: ModelEvent) => void
+
+// Models and collections, whose changes bubble up to their parents
+export function isObservable(value: any): boolean {
+  return (
+    value instanceof Object &&
+    typeof value.on === 'function' &&
+    typeof value.off === 'function'
+  )
+}
+
+/**
+ * Listeners by event type
+ * Listeners of the parent emitter, e.g. the observers of a parent class, are
+ * called before the own ones
+ */
+export default class Emitter {
+  private readonly parent: Emitter | null
+  private listeners: Map<string, EventListener[]> = new Map()
+
+  constructor(parent: Emitter | null = null) {
+    this.parent = parent
+  }
+
+  on(type: string, listener: EventListener): void {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener])
+  }
+
+  /**
+   * Removes a listener, or all listeners of the type
+   */
+  off(type: string, listener?: EventListener): void {
+    const remaining = listener
+      ? (this.listeners.get(type) || []).filter((fn) => fn !== listener)
+      : []
+    if (remaining.length) {
+      this.listeners.set(type, remaining)
+    } else {
+      this.listeners.delete(type)
+    }
+  }
+
+  /**
+   * Whether there are listeners of the type, or of the types in its
+   * namespace: `change` includes `change:price`
+   */
+  has(type: string): boolean {
+    for (const name of this.listeners.keys()) {
+      if (name === type || name.startsWith(`${type}:`)) {
+        return true
+      }
+    }
+    return this.parent ? this.parent.has(type) : false
+  }
+
+  emit(context: any, event: ModelEvent): void {
+    this.parent?.emit(context, event)
+    // Listeners added or removed by a listener only apply to the next event
+    const listeners = this.listeners.get(event.type) || []
+    listeners.forEach((listener) => listener.call(context, event))
+  }
+}
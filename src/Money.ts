@@ -0,0 +1,95 @@
+import BigDecimal, { DecimalValue, RoundingMode } from './BigDecimal'
+
+/**
+ * Immutable amount of money in a single currency
+ * Arithmetic between different currencies throws
+ */
+export default class Money {
+  readonly amount: BigDecimal
+  readonly currency: string
+
+  constructor(amount: DecimalValue, currency: string) {
+    this.amount = BigDecimal.from(amount)
+    this.currency = currency.toUpperCase()
+  }
+
+  /**
+   * The number of decimals used by a currency, e.g. 2 for EUR and 0 for JPY
+   */
+  static minorUnits(currency: string): number {
+    try {
+      return new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency,
+      }).resolvedOptions().maximumFractionDigits
+    } catch {
+      return 2
+    }
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (!(other instanceof Money) || other.currency !== this.currency) {
+      const currency = other instanceof Money ? other.currency : typeof other
+      throw new Error(`Cannot combine ${this.currency} with ${currency}`)
+    }
+  }
+
+  plus(other: Money): Money {
+    this.assertSameCurrency(other)
+    return new Money(this.amount.plus(other.amount), this.currency)
+  }
+
+  minus(other: Money): Money {
+    this.assertSameCurrency(other)
+    return new Money(this.amount.minus(other.amount), this.currency)
+  }
+
+  times(factor: DecimalValue, mode: RoundingMode = 'half-up'): Money {
+    const amount = this.amount.times(factor).round(this.amount.scale, mode)
+    return new Money(amount, this.currency)
+  }
+
+  dividedBy(divisor: DecimalValue, mode: RoundingMode = 'half-up'): Money {
+    const amount = this.amount.dividedBy(divisor, this.amount.scale, mode)
+    return new Money(amount, this.currency)
+  }
+
+  /**
+   * Rounds to the given scale, which defaults to the currency's minor units
+   */
+  round(
+    scale: number = Money.minorUnits(this.currency),
+    mode: RoundingMode = 'half-up'
+  ): Money {
+    return new Money(this.amount.round(scale, mode), this.currency)
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency(other)
+    return this.amount.compare(other.amount)
+  }
+
+  equals(other: Money): boolean {
+    return (
+      other instanceof Money &&
+      other.currency === this.currency &&
+      this.amount.equals(other.amount)
+    )
+  }
+
+  isZero(): boolean {
+    return this.amount.isZero()
+  }
+
+  isNegative(): boolean {
+    return this.amount.isNegative()
+  }
+
+  toString(): string {
+    return `${this.amount.toString()} ${this.currency}`
+  }
+
+  toJSON(): { amount: string; currency: string } {
+    return { amount: this.amount.toString(), currency: this.currency }
+  }
+}
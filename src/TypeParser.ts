@@ -0,0 +1,152 @@
+/**
+ * Parsed form of a type specification
+ * Literal parameters (`decimal:2`, `decimal(2)`) are kept as strings,
+ * type arguments (`array<number>`) are parsed recursively.
+ * Unions (`number|string`) are parsed as a `union` type with the members
+ * as params, and a trailing `?` marks the type as nullable.
+ */
+export interface TypeSpec {
+  name: string
+  params: TypeParam[]
+  nullable?: boolean
+}
+
+export type TypeParam = string | TypeSpec
+
+interface ParserState {
+  source: string
+  pos: number
+}
+
+const NAME_PATTERN = /[\w$.-]/
+
+function fail(state: ParserState, message: string): never {
+  throw new Error(
+    `Invalid type spec "${state.source}" at position ${state.pos}: ${message}`
+  )
+}
+
+function skipSpaces(state: ParserState): void {
+  while (state.source[state.pos] === ' ') {
+    state.pos++
+  }
+}
+
+function consume(state: ParserState, char: string): boolean {
+  skipSpaces(state)
+  if (state.source[state.pos] === char) {
+    state.pos++
+    return true
+  }
+  return false
+}
+
+function expect(state: ParserState, char: string): void {
+  if (!consume(state, char)) {
+    fail(state, `expected "${char}"`)
+  }
+}
+
+function readName(state: ParserState): string {
+  skipSpaces(state)
+  const start = state.pos
+  while (
+    state.pos < state.source.length &&
+    NAME_PATTERN.test(state.source[state.pos])
+  ) {
+    state.pos++
+  }
+  if (start === state.pos) {
+    fail(state, 'expected a type name')
+  }
+  return state.source.slice(start, state.pos)
+}
+
+function readLiteral(state: ParserState, stopChars: string): string {
+  const start = state.pos
+  while (
+    state.pos < state.source.length &&
+    !stopChars.includes(state.source[state.pos])
+  ) {
+    state.pos++
+  }
+  return state.source.slice(start, state.pos).trim()
+}
+
+function parseSpec(state: ParserState, depth: number): TypeSpec {
+  const name = readName(state)
+  const params: TypeParam[] = []
+
+  // Type arguments: array<number>, record<string, integer>
+  if (consume(state, '<')) {
+    do {
+      params.push(parseUnion(state, depth + 1))
+    } while (consume(state, ','))
+    expect(state, '>')
+  }
+
+  // Literal arguments: decimal(2)
+  if (consume(state, '(')) {
+    do {
+      params.push(readLiteral(state, ',)'))
+    } while (consume(state, ','))
+    expect(state, ')')
+  }
+
+  // Colon syntax: decimal:2, array:decimal:2
+  // Inside type arguments a colon parameter also ends at "," and ">"
+  while (consume(state, ':')) {
+    params.push(readLiteral(state, depth > 0 ? ':|?,>' : ':|?'))
+  }
+
+  const spec: TypeSpec = { name, params }
+  if (consume(state, '?')) {
+    spec.nullable = true
+  }
+  return spec
+}
+
+function parseUnion(state: ParserState, depth: number): TypeSpec {
+  const members = [parseSpec(state, depth)]
+  while (consume(state, '|')) {
+    members.push(parseSpec(state, depth))
+  }
+
+  if (members.length === 1) {
+    return members[0]
+  }
+
+  const union: TypeSpec = { name: 'union', params: members }
+  if (members.some((member) => member.nullable)) {
+    union.nullable = true
+  }
+  return union
+}
+
+export function parseTypeSpec(source: string): TypeSpec {
+  const state: ParserState = { source, pos: 0 }
+  const spec = parseUnion(state, 0)
+  skipSpaces(state)
+  if (state.pos < source.length) {
+    fail(state, `unexpected "${source[state.pos]}"`)
+  }
+  return spec
+}
+
+export function formatTypeSpec(spec: TypeParam): string {
+  if (typeof spec === 'string') {
+    return spec
+  }
+  if (spec.name === 'union') {
+    return spec.params.map(formatTypeSpec).join('|')
+  }
+
+  const suffix = spec.nullable ? '?' : ''
+  if (spec.params.length === 0) {
+    return spec.name + suffix
+  }
+  if (spec.params.every((param) => typeof param === 'string')) {
+    return [spec.name, ...spec.params].join(':') + suffix
+  }
+  return `${spec.name}<${spec.params.map(formatTypeSpec).join(', ')}>${suffix}`
+}
@@ -0,0 +1,345 @@
+import type {
+  CastFunction,
+  SerializeFunction,
+  CastContext,
+} from '../CastingManager'
+import { TypeParam } from '../TypeParser'
+import { isNullable } from './helpers'
+
+interface DateParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  millisecond: number
+}
+
+interface FormatPattern {
+  regex: RegExp
+  tokens: string[]
+}
+
+const DATE_FORMAT = 'YYYY-MM-DD'
+const TOKEN_PATTERN = /YYYY|SSS|MM|DD|HH|mm|ss|M|D|H/g
+const TOKEN_REGEX: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  SSS: '(\\d{3})',
+  MM: '(\\d{2})',
+  DD: '(\\d{2})',
+  HH: '(\\d{2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+  M: '(\\d{1,2})',
+  D: '(\\d{1,2})',
+  H: '(\\d{1,2})',
+}
+// ISO strings without an offset are read in the configured timezone
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/
+const ISO_LOCAL_DATETIME =
+  /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/
+
+const patterns: Map<string, FormatPattern> = new Map()
+const zoneFormatters: Map<string, Intl.DateTimeFormat> = new Map()
+
+function isUTC(timezone: string): boolean {
+  return timezone.toUpperCase() === 'UTC'
+}
+
+function isLocal(timezone: string): boolean {
+  return timezone.toLowerCase() === 'local'
+}
+
+function zoneFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    zoneFormatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+// The calendar parts of a date as seen in a timezone
+function toParts(date: Date, timezone: string): DateParts {
+  if (isUTC(timezone)) {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond: date.getUTCMilliseconds(),
+    }
+  }
+
+  if (isLocal(timezone)) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+    }
+  }
+
+  const values: Record<string, number> = {}
+  zoneFormatter(timezone)
+    .formatToParts(date)
+    .forEach((part) => {
+      values[part.type] = parseInt(part.value, 10)
+    })
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    // Some engines report midnight as 24 with hour12: false
+    hour: values.hour % 24,
+    minute: values.minute,
+    second: values.second,
+    millisecond: date.getUTCMilliseconds(),
+  }
+}
+
+function utcTime(parts: DateParts): number {
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    parts.millisecond
+  )
+}
+
+// The date whose calendar parts in the timezone are the given ones
+function fromParts(parts: DateParts, timezone: string): Date {
+  if (isUTC(timezone)) {
+    return new Date(utcTime(parts))
+  }
+
+  if (isLocal(timezone)) {
+    return new Date(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      parts.millisecond
+    )
+  }
+
+  // Correct the UTC guess by the zone offset, twice to settle DST changes
+  const guess = utcTime(parts)
+  const offset = utcTime(toParts(new Date(guess), timezone)) - guess
+  const time = guess - offset
+  const settled = utcTime(toParts(new Date(time), timezone)) - time
+  return new Date(guess - settled)
+}
+
+function formatPattern(format: string): FormatPattern {
+  let pattern = patterns.get(format)
+  if (!pattern) {
+    const tokens: string[] = []
+    const source = format
+      .split(TOKEN_PATTERN)
+      .map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    const matches = format.match(TOKEN_PATTERN) || []
+
+    let regex = source[0]
+    matches.forEach((token, index) => {
+      tokens.push(token)
+      regex += TOKEN_REGEX[token] + source[index + 1]
+    })
+
+    pattern = { regex: new RegExp(`^${regex}$`), tokens }
+    patterns.set(format, pattern)
+  }
+  return pattern
+}
+
+function parseWithFormat(value: string, format: string): DateParts | null {
+  const { regex, tokens } = formatPattern(format)
+  const match = regex.exec(value.trim())
+  if (!match) {
+    return null
+  }
+
+  const parts: DateParts = {
+    year: 1970,
+    month: 1,
+    day: 1,
+    hour: 0,
+    minute: 0,
+    second: 0,
+    millisecond: 0,
+  }
+  tokens.forEach((token, index) => {
+    const number = parseInt(match[index + 1], 10)
+    if (token === 'YYYY') parts.year = number
+    else if (token === 'MM' || token === 'M') parts.month = number
+    else if (token === 'DD' || token === 'D') parts.day = number
+    else if (token === 'HH' || token === 'H') parts.hour = number
+    else if (token === 'mm') parts.minute = number
+    else if (token === 'ss') parts.second = number
+    else if (token === 'SSS') parts.millisecond = number
+  })
+
+  return isValidParts(parts) ? parts : null
+}
+
+function isValidParts(parts: DateParts): boolean {
+  const daysInMonth = new Date(
+    Date.UTC(parts.year, parts.month, 0)
+  ).getUTCDate()
+  return (
+    parts.month >= 1 &&
+    parts.month <= 12 &&
+    parts.day >= 1 &&
+    parts.day <= daysInMonth &&
+    parts.hour < 24 &&
+    parts.minute < 60 &&
+    parts.second < 60
+  )
+}
+
+function isoParts(match: RegExpExecArray): DateParts {
+  return {
+    year: parseInt(match[1], 10),
+    month: parseInt(match[2], 10),
+    day: parseInt(match[3], 10),
+    hour: parseInt(match[4] || '0', 10),
+    minute: parseInt(match[5] || '0', 10),
+    second: parseInt(match[6] || '0', 10),
+    millisecond: parseInt((match[7] || '0').padEnd(3, '0'), 10),
+  }
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+function formatDate(date: Date, format: string, timezone: string): string {
+  if (isNaN(date.getTime())) {
+    throw new Error('cannot format an invalid date')
+  }
+  const parts = toParts(date, timezone)
+  const values: Record<string, string> = {
+    YYYY: pad(parts.year, 4),
+    SSS: pad(parts.millisecond, 3),
+    MM: pad(parts.month),
+    DD: pad(parts.day),
+    HH: pad(parts.hour),
+    mm: pad(parts.minute),
+    ss: pad(parts.second),
+    M: String(parts.month),
+    D: String(parts.day),
+    H: String(parts.hour),
+  }
+  return format.replace(TOKEN_PATTERN, (token) => values[token])
+}
+
+// Invalid dates are kept as `Invalid Date`, unless the cast is strict
+function invalidDate(value: any, context?: CastContext): Date {
+  if (context?.strict) {
+    throw new Error(`"${value}" is not a valid date`)
+  }
+  return new Date(NaN)
+}
+
+/**
+ * Params are an optional format (`date:DD/MM/YYYY`) and an optional
+ * timezone (`date(DD/MM/YYYY, Europe/Paris)`), which is either `UTC`,
+ * `local` or an IANA name and defaults to the manager's timezone
+ */
+function dateParams(
+  params: TypeParam[],
+  defaultTimezone: string
+): [string, string] {
+  const [format, timezone] = params.map(String)
+  return [format || '', timezone || defaultTimezone]
+}
+
+function toDate(
+  value: any,
+  format: string,
+  timezone: string,
+  context?: CastContext
+): Date {
+  if (value instanceof Date) {
+    return value
+  }
+
+  if (typeof value === 'string' && format) {
+    const parts = parseWithFormat(value, format)
+    return parts ? fromParts(parts, timezone) : invalidDate(value, context)
+  }
+
+  if (typeof value === 'string') {
+    const match =
+      ISO_DATE.exec(value.trim()) || ISO_LOCAL_DATETIME.exec(value.trim())
+    if (match) {
+      const parts = isoParts(match)
+      return isValidParts(parts)
+        ? fromParts(parts, timezone)
+        : invalidDate(value, context)
+    }
+  }
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? invalidDate(value, context) : date
+}
+
+export const asDate: CastFunction = function (
+  value: any,
+  params: TypeParam[] = [],
+  context?: CastContext
+) {
+  if (isNullable(value)) {
+    return null
+  }
+  const [format, timezone] = dateParams(params, this.timezone)
+  return toDate(value, format, timezone, context)
+}
+
+export const serializeDate: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    return null
+  }
+  const [format, timezone] = dateParams(params, this.timezone)
+  const date = toDate(value, format, timezone)
+  return formatDate(date, format || DATE_FORMAT, timezone)
+}
+
+export const asDateTime: CastFunction = asDate
+
+// Without a format the instant is serialized as an ISO string in UTC
+export const serializeDateTime: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    return null
+  }
+  const [format, timezone] = dateParams(params, this.timezone)
+  const date = toDate(value, format, timezone)
+  return format ? formatDate(date, format, timezone) : date.toISOString()
+}
@@ -0,0 +1,107 @@
+import type { CastFunction, SerializeFunction } from '../CastingManager'
+import { TypeParam } from '../TypeParser'
+import BigDecimal, { DecimalValue, RoundingMode } from '../BigDecimal'
+import Money from '../Money'
+import { isNullable } from './helpers'
+
+const ROUNDING_MODES = [
+  'up',
+  'down',
+  'ceiling',
+  'floor',
+  'half-up',
+  'half-down',
+  'half-even',
+]
+// "12.50", "12.50 EUR" or "EUR 12.50"
+const MONEY_PATTERN =
+  /^([a-z]{3})?\s*([-+]?[\d.]+(?:e[-+]?\d+)?)\s*([a-z]{3})?$/i
+
+function roundingMode(param?: TypeParam): RoundingMode {
+  const mode = param ? String(param) : 'half-up'
+  if (!ROUNDING_MODES.includes(mode)) {
+    throw new Error(`unknown rounding mode "${mode}"`)
+  }
+  return mode as RoundingMode
+}
+
+// bigdecimal, bigdecimal:2, bigdecimal:2:half-even
+export const asBigDecimal: CastFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    return null
+  }
+
+  const decimal = BigDecimal.from(value)
+  if (!params[0]) {
+    return decimal
+  }
+  return decimal.round(parseInt(String(params[0]), 10), roundingMode(params[1]))
+}
+
+export const serializeBigDecimal: SerializeFunction = function (value: any) {
+  return isNullable(value) ? null : BigDecimal.from(value).toString()
+}
+
+// money, money:EUR, money:EUR:4:half-even
+export const asMoney: CastFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    return null
+  }
+
+  const [expected, scaleParam, modeParam] = params.map(String)
+  let amount: DecimalValue = value
+  let currency: string | undefined
+
+  if (value instanceof Money) {
+    amount = value.amount
+    currency = value.currency
+  } else if (typeof value === 'object' && 'amount' in value) {
+    amount = value.amount
+    currency = value.currency
+  } else if (typeof value === 'string') {
+    const match = MONEY_PATTERN.exec(value.trim())
+    if (match) {
+      amount = match[2]
+      currency = match[1] || match[3]
+    }
+  }
+
+  currency = currency || expected
+  if (!currency) {
+    throw new Error('a currency is required')
+  }
+  if (expected && currency.toUpperCase() !== expected.toUpperCase()) {
+    throw new Error(`expected ${expected.toUpperCase()}, got ${currency}`)
+  }
+
+  const scale = scaleParam
+    ? parseInt(scaleParam, 10)
+    : Money.minorUnits(currency)
+  if (value instanceof Money && value.amount.scale === scale) {
+    return value
+  }
+  return new Money(amount, currency).round(scale, roundingMode(modeParam))
+}
+
+export const serializeMoney: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    return null
+  }
+  const money =
+    value instanceof Money
+      ? value
+      : this.cast(value, {
+          name: 'money',
+          params,
+        })
+  return money.toJSON()
+}
@@ -0,0 +1,157 @@
+import type { CastFunction, SerializeFunction } from '../CastingManager'
+import { isNullable } from './helpers'
+
+const UUID_PATTERN =
+  /^\{?([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\}?$/i
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+// UUIDs with or without braces, normalized to lowercase
+export const asUuid: CastFunction = function (value: any) {
+  if (isNullable(value)) {
+    return null
+  }
+
+  const match = UUID_PATTERN.exec(String(value).trim())
+  if (!match) {
+    throw new Error(`"${value}" is not a valid UUID`)
+  }
+  return match[1].toLowerCase()
+}
+
+export const serializeUuid: SerializeFunction = function (value: any) {
+  return isNullable(value) ? null : String(value).toLowerCase()
+}
+
+// The domain is case-insensitive and lowercased, the local part is kept
+export const asEmail: CastFunction = function (value: any) {
+  if (isNullable(value)) {
+    return null
+  }
+
+  const email = String(value).trim()
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new Error(`"${value}" is not a valid email address`)
+  }
+
+  const at = email.lastIndexOf('@')
+  return email.slice(0, at) + email.slice(at).toLowerCase()
+}
+
+export const serializeEmail: SerializeFunction = function (value: any) {
+  return isNullable(value) ? null : String(value)
+}
+
+export const asUrl: CastFunction = function (value: any) {
+  if (isNullable(value)) {
+    return null
+  }
+  if (value instanceof URL) {
+    return value
+  }
+
+  try {
+    return new URL(String(value).trim())
+  } catch {
+    throw new Error(`"${value}" is not a valid URL`)
+  }
+}
+
+export const serializeUrl: SerializeFunction = function (value: any) {
+  return isNullable(value) ? null : String(value)
+}
+
+// Strings are parsed, other values are already decoded
+export const asJson: CastFunction = function (value: any) {
+  if (typeof value !== 'string') {
+    return value === undefined ? null : value
+  }
+
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    throw new Error(`invalid JSON: ${(error as Error).message}`)
+  }
+}
+
+export const serializeJson: SerializeFunction = function (value: any) {
+  return isNullable(value) ? null : JSON.stringify(value)
+}
+
+function isByte(value: any): boolean {
+  return Number.isInteger(value) && value >= 0 && value < 256
+}
+
+function decodeBase64(value: string): Uint8Array {
+  // URL-safe alphabet and missing padding are accepted too
+  let source = value.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/')
+  source = source.padEnd(Math.ceil(source.length / 4) * 4, '=')
+  if (!BASE64_PATTERN.test(source)) {
+    throw new Error(`"${value}" is not valid base64`)
+  }
+
+  // Decoded without atob(), which Node 14 doesn't have
+  const digits = source.replace(/=+$/, '')
+  const bytes = new Uint8Array(Math.floor((digits.length * 6) / 8))
+  let buffer = 0
+  let bits = 0
+  let index = 0
+  for (const digit of digits) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(digit)
+    bits += 6
+    if (bits >= 8) {
+      bits -= 8
+      bytes[index++] = (buffer >> bits) & 0xff
+    }
+  }
+  return bytes
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let encoded = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk =
+      (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0)
+    const length = Math.min(bytes.length - i, 3) + 1
+    for (let digit = 0; digit < 4; digit++) {
+      encoded +=
+        digit < length ? BASE64_ALPHABET[(chunk >> (18 - digit * 6)) & 63] : '='
+    }
+  }
+  return encoded
+}
+
+// Base64 strings, buffers and lists of bytes hydrate to a Uint8Array
+export const asBytes: CastFunction = function (value: any) {
+  if (isNullable(value)) {
+    return null
+  }
+  if (value instanceof Uint8Array) {
+    return value
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return value instanceof ArrayBuffer
+      ? new Uint8Array(value)
+      : new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+  }
+  if (Array.isArray(value)) {
+    if (!value.every(isByte)) {
+      throw new Error('expected a list of bytes')
+    }
+    return Uint8Array.from(value)
+  }
+  if (typeof value === 'string') {
+    return decodeBase64(value)
+  }
+
+  throw new Error('expected a base64 string or bytes')
+}
+
+export const serializeBytes: SerializeFunction = function (value: any) {
+  if (isNullable(value)) {
+    return null
+  }
+  return encodeBase64(asBytes.call(this, value))
+}
@@ -0,0 +1,53 @@
+import { TypeParam } from '../TypeParser'
+
+export function isNullable(value: any) {
+  return value === null || value === undefined
+}
+
+/**
+ * The type of the elements of a container type
+ * In colon syntax the remaining params form the element spec
+ * (`array:decimal:2`), otherwise the first param is already parsed
+ */
+export function elementSpec(params: TypeParam[]): TypeParam | undefined {
+  if (typeof params[0] === 'string') {
+    return params.join(':')
+  }
+  return params[0]
+}
+
+/**
+ * The key and value types of a dictionary type
+ * `map<string, decimal>` and `map:string,decimal` declare both,
+ * `record<integer>` and `record:integer` only the value type
+ */
+export function keyValueSpecs(
+  params: TypeParam[]
+): [TypeParam | undefined, TypeParam | undefined] {
+  if (typeof params[0] !== 'string') {
+    return params.length > 1 ? [params[0], params[1]] : [undefined, params[0]]
+  }
+
+  const joined = params.join(':')
+  const comma = joined.indexOf(',')
+  if (comma === -1) {
+    return [undefined, joined]
+  }
+  return [joined.slice(0, comma).trim(), joined.slice(comma + 1).trim()]
+}
+
+/**
+ * The member types of a fixed-position type
+ * `tuple<number, string>` and `tuple:number,string` are equivalent
+ */
+export function listSpecs(params: TypeParam[]): TypeParam[] {
+  if (typeof params[0] !== 'string') {
+    return params
+  }
+
+  return params
+    .join(':')
+    .split(',')
+    .map((spec) => spec.trim())
+    .filter((spec) => spec !== '')
+}
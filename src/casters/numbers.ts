@@ -0,0 +1,181 @@
+import type {
+  CastFunction,
+  SerializeFunction,
+  CastContext,
+} from '../CastingManager'
+import { TypeParam } from '../TypeParser'
+import { isNullable } from './helpers'
+
+interface NumberSymbols {
+  group: string
+  decimal: string
+  minus: string
+}
+
+const PRECISION = /^\d+$/
+const CURRENCY_SYMBOLS = /\p{Sc}/gu
+// ISO currency codes around the number, as in "EUR 12,50" or "12,50 EUR"
+const CURRENCY_CODES = /^[a-z]{3}(?=[\d.,+-])|(?<=[\d.,])[a-z]{3}$/i
+const PERCENT_SIGN = /[%\u066a]/
+// Includes the (narrow) no-break spaces used as grouping separators
+const WHITESPACE = /\s/g
+const MINUS_SIGN = '\u2212'
+// Swiss grouping is typed as an ASCII apostrophe more often than not
+const APOSTROPHES = /[\u2019']/g
+
+const symbolsCache: Map<string, NumberSymbols> = new Map()
+
+function numberSymbols(locale: string): NumberSymbols {
+  let symbols = symbolsCache.get(locale)
+  if (!symbols) {
+    const found = { group: ',', decimal: '.', minus: '-' }
+    new Intl.NumberFormat(locale).formatToParts(-12345.6).forEach((part) => {
+      if (part.type === 'group') found.group = part.value
+      else if (part.type === 'decimal') found.decimal = part.value
+      else if (part.type === 'minusSign') found.minus = part.value
+    })
+    symbols = found
+    symbolsCache.set(locale, symbols)
+  }
+  return symbols
+}
+
+function removeAll(value: string, search: string): string {
+  return search ? value.split(search).join('') : value
+}
+
+/**
+ * Rewrites a number typed in a locale (`1.234,56 €` in de-DE) to the
+ * canonical form read by Number(), e.g. `1234.56`
+ * Percent values are divided by 100
+ */
+export function parseLocaleNumber(value: string, locale: string): number {
+  const symbols = numberSymbols(locale)
+  let source = value.replace(WHITESPACE, '').replace(CURRENCY_SYMBOLS, '')
+  source = source.replace(CURRENCY_CODES, '')
+
+  const percent = PERCENT_SIGN.test(source)
+  source = source.replace(PERCENT_SIGN, '')
+
+  // Grouping spaces were removed with the whitespace already
+  const group = symbols.group.replace(WHITESPACE, '')
+  source =
+    group === '\u2019'
+      ? source.replace(APOSTROPHES, '')
+      : removeAll(source, group)
+  source = source.split(symbols.decimal).join('.')
+  source = source.replace(symbols.minus, '-').replace(MINUS_SIGN, '-')
+
+  const number = source === '' ? NaN : Number(source)
+  return percent ? number / 100 : number
+}
+
+// Non-numeric input falls back to 0, unless the cast is strict
+function invalidNumber(value: any, context?: CastContext) {
+  if (context?.strict) {
+    throw new Error(`"${value}" is not a valid number`)
+  }
+  return 0
+}
+
+// Strict casts only read numbers and non-blank strings, so that `''`,
+// `true` or `[]` don't become 0 or 1
+function isNumericInput(value: any): boolean {
+  return (
+    typeof value === 'number' ||
+    (typeof value === 'string' && value.trim() !== '')
+  )
+}
+
+/**
+ * Splits the precision and locale params of a numeric type
+ * `decimal:2:de-DE`, `decimal:de-DE` and `number:de-DE` are all valid
+ */
+function numberParams(
+  params: TypeParam[],
+  defaultLocale?: string
+): [string | undefined, string | undefined] {
+  const values = params.map(String)
+  const precision = values.find((param) => PRECISION.test(param))
+  const locale = values.find((param) => !PRECISION.test(param))
+  return [precision, locale || defaultLocale]
+}
+
+// Locale-formatted strings are rewritten before the usual parsing
+function localized(value: any, locale?: string): any {
+  return locale && typeof value === 'string'
+    ? parseLocaleNumber(value, locale)
+    : value
+}
+
+export const asNumber: CastFunction = function (
+  value: any,
+  params: TypeParam[] = [],
+  context?: CastContext
+) {
+  if (isNullable(value)) {
+    return null
+  }
+  if (typeof value === 'number' && !isNaN(value)) return value
+  if (context?.strict && !isNumericInput(value)) {
+    return invalidNumber(value, context)
+  }
+  const [, locale] = numberParams(params, this.locale)
+  const source = localized(value, locale)
+  const num = source === '' ? NaN : Number(source)
+  return isNaN(num) ? invalidNumber(value, context) : num
+}
+
+export const asDecimal: CastFunction = function (
+  value: any,
+  params: TypeParam[] = [],
+  context?: CastContext
+) {
+  if (isNullable(value)) {
+    return null
+  }
+  if (context?.strict && !isNumericInput(value)) {
+    return invalidNumber(value, context)
+  }
+  const [precisionParam, locale] = numberParams(params, this.locale)
+  const precision = parseInt(precisionParam || '2', 10)
+  const source = localized(value, locale)
+  const num = context?.strict ? Number(source) : parseFloat(source)
+  return isNaN(num)
+    ? invalidNumber(value, context)
+    : Number(num.toFixed(precision))
+}
+
+export const asInteger: CastFunction = function (
+  value: any,
+  params: TypeParam[] = [],
+  context?: CastContext
+): number | null {
+  const [, locale] = numberParams(params, this.locale)
+  return asDecimal.call(this, value, locale ? ['0', locale] : ['0'], context)
+}
+
+// Numbers always serialize to canonical JSON numbers
+export const serializeNumber: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    return null
+  }
+  return typeof value === 'number' ? value : asNumber.call(this, value, params)
+}
+
+export const serializeDecimal: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  return asDecimal.call(this, value, params)
+}
+
+export const serializeInteger: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  return asInteger.call(this, value, params)
+}
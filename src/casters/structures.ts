@@ -0,0 +1,162 @@
+import type { CastFunction, SerializeFunction } from '../CastingManager'
+import { TypeParam } from '../TypeParser'
+import { isNullable, elementSpec, keyValueSpecs, listSpecs } from './helpers'
+
+// Accepts plain objects, Maps and lists of [key, value] pairs
+function entriesOf(value: any): Array<[any, any]> {
+  if (value instanceof Map) {
+    return Array.from(value.entries())
+  }
+  if (Array.isArray(value)) {
+    if (!value.every((entry) => Array.isArray(entry) && entry.length === 2)) {
+      throw new Error('expected a list of [key, value] pairs')
+    }
+    return value as Array<[any, any]>
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value)
+  }
+  throw new Error('expected an object, a Map or a list of entries')
+}
+
+export const asRecord: CastFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    return {}
+  }
+
+  const [keyType, valueType] = keyValueSpecs(params)
+  const result: Record<string, any> = {}
+
+  entriesOf(value).forEach(([key, item]) => {
+    const path = String(key)
+    const castKey = keyType ? this.cast(key, keyType, { path }) : key
+    result[String(castKey)] = valueType
+      ? this.cast(item, valueType, { path })
+      : item
+  })
+
+  return result
+}
+
+export const serializeRecord: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  const [, valueType] = keyValueSpecs(params)
+  const result: Record<string, any> = {}
+
+  entriesOf(value || {}).forEach(([key, item]) => {
+    result[String(key)] = valueType ? this.serialize(item, valueType) : item
+  })
+
+  return result
+}
+
+export const asMap: CastFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    return new Map()
+  }
+
+  const [keyType, valueType] = keyValueSpecs(params)
+  const result = new Map()
+
+  entriesOf(value).forEach(([key, item]) => {
+    const path = String(key)
+    result.set(
+      keyType ? this.cast(key, keyType, { path }) : key,
+      valueType ? this.cast(item, valueType, { path }) : item
+    )
+  })
+
+  return result
+}
+
+export const serializeMap: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  const [keyType, valueType] = keyValueSpecs(params)
+  const result: Record<string, any> = {}
+
+  entriesOf(value || {}).forEach(([key, item]) => {
+    const serializedKey = keyType ? this.serialize(key, keyType) : key
+    result[String(serializedKey)] = valueType
+      ? this.serialize(item, valueType)
+      : item
+  })
+
+  return result
+}
+
+export const asSet: CastFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    return new Set()
+  }
+
+  const items =
+    Array.isArray(value) || value instanceof Set ? Array.from(value) : [value]
+  const itemType = elementSpec(params)
+
+  return new Set(
+    itemType
+      ? items.map((item, index) =>
+          this.cast(item, itemType, { path: String(index) })
+        )
+      : items
+  )
+}
+
+export const serializeSet: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (!(value instanceof Set) && !Array.isArray(value)) {
+    return []
+  }
+
+  const itemType = elementSpec(params)
+  return Array.from(value).map((item) =>
+    itemType ? this.serialize(item, itemType) : item
+  )
+}
+
+// Each position has its own type, extra items are dropped and
+// missing ones are cast from null
+export const asTuple: CastFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (isNullable(value)) {
+    value = []
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('expected an array')
+  }
+
+  return listSpecs(params).map((type, index) => {
+    const item = index < value.length ? value[index] : null
+    return this.cast(item, type, { path: String(index) })
+  })
+}
+
+export const serializeTuple: SerializeFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (!Array.isArray(value)) {
+    return []
+  }
+
+  return listSpecs(params).map((type, index) =>
+    this.serialize(index < value.length ? value[index] : null, type)
+  )
+}
@@ -0,0 +1,36 @@
+import type { TransformFunction } from '../CastingManager'
+import { TypeParam } from '../TypeParser'
+
+export const trim: TransformFunction = function (value: any) {
+  return typeof value === 'string' ? value.trim() : value
+}
+
+export const lowercase: TransformFunction = function (value: any) {
+  return typeof value === 'string' ? value.toLowerCase() : value
+}
+
+export const uppercase: TransformFunction = function (value: any) {
+  return typeof value === 'string' ? value.toUpperCase() : value
+}
+
+/**
+ * Keeps numbers within `clamp:min:max`, either bound can be left empty
+ * (`clamp::100`)
+ */
+export const clamp: TransformFunction = function (
+  value: any,
+  params: TypeParam[] = []
+) {
+  if (typeof value !== 'number') {
+    return value
+  }
+
+  const [min, max] = params.map((param) => (param === '' ? NaN : Number(param)))
+  if (!isNaN(min) && value < min) {
+    return min
+  }
+  if (!isNaN(max) && value > max) {
+    return max
+  }
+  return value
+}
@@ -2,7 +2,15 @@ export { default as CastingManager } from './CastingManager'
 export { default as ClassBuilder } from './ClassBuilder'
 export { default as BaseModel } from './BaseModel'
 export { default as BaseCollection } from './BaseCollection'
+export { default as CastError } from './CastError'
+export { default as BigDecimal } from './BigDecimal'
+export { default as Money } from './Money'
 export * from './CastingManager'
 export * from './ClassBuilder'
 export * from './BaseModel'
 export * from './BaseCollection'
+export * from './TypeParser'
+export * from './BigDecimal'
+export * from './validation'
+export * from './Emitter'
+export * from './reactivity'
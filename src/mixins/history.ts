@@ -0,0 +1,152 @@
+import { ModelEvent } from '../Emitter'
+
+// The changes undone or redone together
+type Transaction = ModelEvent[]
+
+interface History {
+  undo: Transaction[]
+  redo: Transaction[]
+  // Changes of the batch in progress
+  batch: Transaction | null
+  // Set while undoing or redoing, so the changes are not recorded again
+  replaying: boolean
+}
+
+function historyOf(model: any): History {
+  if (!model._history) {
+    model._history = { undo: [], redo: [], batch: null, replaying: false }
+  }
+  return model._history
+}
+
+// The attribute key, or the item index for collections
+function lastKey(event: ModelEvent): string {
+  const path = event.path.split('.')
+  return path[path.length - 1]
+}
+
+function apply(event: ModelEvent, reverse: boolean): void {
+  const { target } = event
+  const value = reverse ? event.oldValue : event.value
+  const oldValue = reverse ? event.value : event.oldValue
+
+  if (!Array.isArray(target)) {
+    target.setAttribute(lastKey(event), value)
+    return
+  }
+
+  // Items added to a collection have a value, removed items an old value
+  const index = Number(lastKey(event))
+  if (oldValue !== undefined) {
+    target.splice(index, 1)
+  }
+  if (value !== undefined) {
+    target.splice(index, 0, value)
+  }
+}
+
+// Records a new step, which drops the undone ones
+function commit(history: History, transaction: Transaction, limit: number) {
+  history.undo.push(transaction)
+  if (history.undo.length > limit) {
+    history.undo.shift()
+  }
+  history.redo = []
+}
+
+function replay(history: History, callback: () => void): void {
+  history.replaying = true
+  try {
+    callback()
+  } finally {
+    history.replaying = false
+  }
+}
+
+/**
+ * Records the changes of a model, including those of its nested models and
+ * collections, to undo and redo them
+ */
+export default function (Class: any, options: { limit?: number } = {}) {
+  const limit = options?.limit ?? 100
+
+  if (typeof Class.observe !== 'function') {
+    throw new Error('History requires a class extending BaseModel')
+  }
+
+  Class.observe('change', function (this: any, event: ModelEvent) {
+    const history = historyOf(this)
+    if (history.replaying) {
+      return
+    }
+
+    if (history.batch) {
+      history.batch.push(event)
+      return
+    }
+
+    commit(history, [event], limit)
+  })
+
+  Class.prototype.canUndo = function () {
+    return historyOf(this).undo.length > 0
+  }
+
+  Class.prototype.canRedo = function () {
+    return historyOf(this).redo.length > 0
+  }
+
+  Class.prototype.undo = function () {
+    const history = historyOf(this)
+    const transaction = history.undo.pop()
+    if (transaction) {
+      replay(history, () => {
+        ;[...transaction].reverse().forEach((event) => apply(event, true))
+      })
+      history.redo.push(transaction)
+    }
+    return this
+  }
+
+  Class.prototype.redo = function () {
+    const history = historyOf(this)
+    const transaction = history.redo.pop()
+    if (transaction) {
+      replay(history, () => {
+        transaction.forEach((event) => apply(event, false))
+      })
+      history.undo.push(transaction)
+    }
+    return this
+  }
+
+  /**
+   * Records the changes made by the callback as one step
+   */
+  Class.prototype.batch = function (callback: (model: any) => void) {
+    const history = historyOf(this)
+    if (history.batch) {
+      callback(this)
+      return this
+    }
+
+    const transaction: Transaction = []
+    history.batch = transaction
+    try {
+      callback(this)
+    } finally {
+      history.batch = null
+      if (transaction.length) {
+        commit(history, transaction, limit)
+      }
+    }
+    return this
+  }
+
+  Class.prototype.clearHistory = function () {
+    const history = historyOf(this)
+    history.undo = []
+    history.redo = []
+    return this
+  }
+}
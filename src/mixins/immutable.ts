@@ -0,0 +1,7 @@
+/**
+ * Makes the models of the class immutable once built: setters throw and
+ * changes are made with `model.with({ ... })`, which returns a new model
+ */
+export default function (Class: any, enabled: boolean = true): void {
+  Class.prototype._immutable = enabled !== false
+}
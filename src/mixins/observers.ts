@@ -0,0 +1,16 @@
+import { EventListener } from '../Emitter'
+
+export default function (
+  Class: any,
+  observers: Record<string, EventListener | EventListener[]> = {}
+): void {
+  if (typeof Class.observe !== 'function') {
+    throw new Error('Observers require a class extending BaseModel')
+  }
+
+  Object.entries(observers).forEach(([type, listeners]) => {
+    ;([] as EventListener[]).concat(listeners).forEach((listener) => {
+      Class.observe(type, listener)
+    })
+  })
+}
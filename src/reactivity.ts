@@ -0,0 +1,68 @@
+import { EventListener, ModelEvent } from './Emitter'
+
+/**
+ * The bridge to the reactivity system of a UI framework, e.g. a Vue
+ * `shallowRef()` triggered with `triggerRef()`, or a signal holding a version
+ */
+export interface ReactivityAdapter<S = unknown> {
+  // Creates the framework state of a model or collection
+  create(target: any): S
+  // Tells the framework that the model or collection changed
+  notify(state: S, event: ModelEvent): void
+}
+
+export interface Reactive<T = any, S = unknown> {
+  readonly target: T
+  readonly state: S
+  // Bumped on every change, e.g. the snapshot of React's useSyncExternalStore
+  readonly version: number
+  // Calls the listener on every change, until the returned function is called
+  subscribe(listener: (event: ModelEvent) => void): () => void
+  // Stops listening to the target
+  dispose(): void
+}
+
+interface Observable {
+  on(type: string, listener: EventListener): unknown
+  off(type: string, listener?: EventListener): unknown
+}
+
+/**
+ * Connects a model or collection to a reactivity system
+ * Attribute changes, including those of nested models, and items added to or
+ * removed from collections notify the adapter and the subscribers
+ */
+export function makeReactive<T extends Observable, S>(
+  target: T,
+  adapter: ReactivityAdapter<S>
+): Reactive<T, S> {
+  const subscribers: Set<(event: ModelEvent) => void> = new Set()
+  let version = 0
+
+  const onChange = (event: ModelEvent) => {
+    version++
+    adapter.notify(reactive.state, event)
+    subscribers.forEach((subscriber) => subscriber(event))
+  }
+
+  const reactive: Reactive<T, S> = {
+    target,
+    state: adapter.create(target),
+    get version() {
+      return version
+    },
+    subscribe(listener) {
+      subscribers.add(listener)
+      return () => {
+        subscribers.delete(listener)
+      }
+    },
+    dispose() {
+      subscribers.clear()
+      target.off('change', onChange)
+    },
+  }
+
+  target.on('change', onChange)
+  return reactive
+}
@@ -0,0 +1,180 @@
+/**
+ * Passed to custom rules, e.g. to ignore the model itself in uniqueness checks
+ */
+export interface RuleContext {
+  model: any
+  key: string
+}
+
+/**
+ * A custom rule returns `true` (or nothing) for valid values, `false` or an
+ * error message for invalid ones. It may return a promise
+ */
+export type RuleFunction = (
+  value: any,
+  context: RuleContext
+) => boolean | string | void | Promise<boolean | string | void>
+
+export interface ValidationRules {
+  required?: boolean
+  // Numbers and dates by value, strings and lists by length
+  min?: number | string | Date
+  max?: number | string | Date
+  pattern?: RegExp | string
+  in?: any[]
+  // Custom rules, named by their key
+  [rule: string]: unknown
+}
+
+// Error messages keyed by attribute path, e.g. `items.2.price`
+export type ValidationErrors = Record<string, string[]>
+
+type BuiltInRule = (value: any, param: any) => string | null
+
+function isEmpty(value: any): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+function compare(
+  value: any,
+  param: any,
+  test: (a: number, b: number) => boolean,
+  bound: string
+): string | null {
+  if (value instanceof Date) {
+    const limit = new Date(param)
+    return test(value.getTime(), limit.getTime())
+      ? null
+      : `must be ${bound} ${limit.toISOString()}`
+  }
+  if (typeof value === 'string' || Array.isArray(value)) {
+    const unit = typeof value === 'string' ? 'characters' : 'items'
+    return test(value.length, Number(param))
+      ? null
+      : `must have ${bound} ${param} ${unit}`
+  }
+
+  const number = Number(value)
+  return isNaN(number) || test(number, Number(param))
+    ? null
+    : `must be ${bound} ${param}`
+}
+
+const rules: Record<string, BuiltInRule> = {
+  required: (value, param) =>
+    param !== false && isEmpty(value) ? 'is required' : null,
+  min: (value, param) => compare(value, param, (a, b) => a >= b, 'at least'),
+  max: (value, param) => compare(value, param, (a, b) => a <= b, 'at most'),
+  pattern: (value, param) =>
+    new RegExp(param).test(String(value)) ? null : 'has an invalid format',
+  in: (value, param: any[]) =>
+    param.includes(value) ? null : `must be one of ${param.join(', ')}`,
+}
+
+async function checkRule(
+  name: string,
+  param: unknown,
+  value: any,
+  context: RuleContext
+): Promise<string | null> {
+  if (typeof param === 'function') {
+    const result = await (param as RuleFunction)(value, context)
+    if (result === false) {
+      return 'is invalid'
+    }
+    return typeof result === 'string' ? result : null
+  }
+
+  const rule = rules[name]
+  if (!rule) {
+    throw new Error(`Unknown validation rule "${name}"`)
+  }
+  return rule(value, param)
+}
+
+/**
+ * Checks a value against its rules, in order
+ * Empty values are only checked by the `required` rule
+ */
+export async function validateValue(
+  value: any,
+  valueRules: ValidationRules,
+  context: RuleContext
+): Promise<string[]> {
+  const entries = Object.entries(valueRules).filter(
+    ([name]) => name === 'required' || !isEmpty(value)
+  )
+  const messages = await Promise.all(
+    entries.map(([name, param]) => checkRule(name, param, value, context))
+  )
+  return messages.filter((message): message is string => message !== null)
+}
+
+function prefixErrors(
+  errors: ValidationErrors,
+  prefix: string
+): ValidationErrors {
+  const prefixed: ValidationErrors = {}
+  Object.entries(errors).forEach(([path, messages]) => {
+    prefixed[`${prefix}.${path}`] = messages
+  })
+  return prefixed
+}
+
+/**
+ * Validates the models found in a value: a model itself or the items of a
+ * collection or array, keyed by their index
+ */
+export async function validateNested(value: any): Promise<ValidationErrors> {
+  if (value && typeof value.validate === 'function') {
+    return value.validate()
+  }
+  if (!Array.isArray(value)) {
+    return {}
+  }
+
+  const itemErrors = await Promise.all(
+    value.map((item) => validateNested(item))
+  )
+  return Object.assign(
+    {},
+    ...itemErrors.map((errors, index) => prefixErrors(errors, String(index)))
+  )
+}
+
+/**
+ * Validates the attributes of a model against the rules of its props, and
+ * its nested models
+ */
+export async function validateAttributes(
+  model: any,
+  attributes: Record<string, any>,
+  propertyRules: Record<string, ValidationRules>
+): Promise<ValidationErrors> {
+  const keys = [
+    ...new Set([...Object.keys(propertyRules), ...Object.keys(attributes)]),
+  ]
+
+  const results = await Promise.all(
+    keys.map(async (key) => {
+      const value = attributes[key]
+      const [messages, nested] = await Promise.all([
+        propertyRules[key]
+          ? validateValue(value, propertyRules[key], { model, key })
+          : [],
+        validateNested(value),
+      ])
+
+      const errors: ValidationErrors = messages.length
+        ? { [key]: messages }
+        : {}
+      return Object.assign(errors, prefixErrors(nested, key))
+    })
+  )
+  return Object.assign({}, ...results)
+}
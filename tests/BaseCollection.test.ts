@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import BaseCollection from '../src/BaseCollection'
 import BaseModel from '../src/BaseModel'
+import BigDecimal from '../src/BigDecimal'
+import Money from '../src/Money'
 
 // Create a test model class
 class TestModel extends BaseModel {
@@ -390,6 +392,72 @@ describe('BaseCollection', () => {
     })
   })
 
+  describe('exact math methods', () => {
+    it('should sum BigDecimal values exactly', () => {
+      const items = new TestCollection([
+        { id: 1, price: BigDecimal.from('0.1') },
+        { id: 2, price: BigDecimal.from('0.2') },
+        { id: 3, price: BigDecimal.from('0.3') },
+      ])
+
+      const total = items.sum('price')
+      expect(total).toBeInstanceOf(BigDecimal)
+      expect(total.toString()).toBe('0.6')
+      expect(items.avg('price').toString()).toBe('0.2')
+    })
+
+    it('should sum Money values exactly', () => {
+      const items = new TestCollection([
+        { id: 1, price: new Money('10.10', 'EUR') },
+        { id: 2, price: new Money('20.20', 'EUR') },
+        { id: 3, price: null },
+      ])
+
+      const total = items.sum((item) => item.price)
+      expect(total).toBeInstanceOf(Money)
+      expect(total.toString()).toBe('30.30 EUR')
+      expect(items.avg('price').toString()).toBe('10.10 EUR')
+    })
+
+    it('should not round averages to the scale of the values', () => {
+      const cents = new TestCollection([
+        { id: 1, price: BigDecimal.from('0.01') },
+        { id: 2, price: BigDecimal.from('0.02') },
+      ])
+      const units = new TestCollection([
+        { id: 1, price: BigDecimal.from('1') },
+        { id: 2, price: BigDecimal.from('2') },
+        { id: 3, price: BigDecimal.from('2') },
+      ])
+
+      expect(cents.avg('price').toString()).toBe('0.015')
+      expect(units.avg('price').toString()).toBe('1.6666666667')
+      expect(units.avg('price', 2).toString()).toBe('1.67')
+      expect(units.avg('price', 2, 'down').toString()).toBe('1.66')
+      expect(units.head(2).avg('price').toString()).toBe('1.5')
+    })
+
+    it('should average Money values to the given scale', () => {
+      const items = new TestCollection([
+        { id: 1, price: new Money('0.01', 'EUR') },
+        { id: 2, price: new Money('0.02', 'EUR') },
+        { id: 3, price: new Money('0.02', 'EUR') },
+      ])
+
+      expect(items.avg('price').toString()).toBe('0.016666666667 EUR')
+      expect(items.avg('price', 2).toString()).toBe('0.02 EUR')
+    })
+
+    it('should refuse to sum different currencies', () => {
+      const items = new TestCollection([
+        { id: 1, price: new Money('10', 'EUR') },
+        { id: 2, price: new Money('10', 'USD') },
+      ])
+
+      expect(() => items.sum('price')).toThrow('Cannot combine EUR with USD')
+    })
+  })
+
   describe('filterBy', () => {
     it('should filter by attribute value', () => {
       const electronicsItems = collection.filterBy('category', 'electronics')
@@ -949,6 +1017,90 @@ describe('BaseCollection', () => {
     })
   })
 
+  describe('events', () => {
+    it('should emit changes when items are added or removed', () => {
+      const listener = vi.fn()
+      collection.on('change', listener)
+
+      collection.add({ id: 5, name: 'Item E' })
+      collection.remove(1)
+      collection.splice(0, 1, { id: 6 })
+
+      expect(
+        listener.mock.calls.map(([event]) => [
+          event.path,
+          event.value?.id,
+          event.oldValue?.id,
+        ])
+      ).toEqual([
+        ['4', 5, undefined],
+        ['0', undefined, 1],
+        ['0', undefined, 2],
+        ['0', 6, undefined],
+      ])
+    })
+
+    it('should bubble changes of items with their index', () => {
+      const listener = vi.fn()
+      collection.on('change', listener)
+
+      models[2].setAttribute('price', 250)
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: models[2],
+          path: '2.price',
+          value: 250,
+          oldValue: 200,
+        })
+      )
+    })
+
+    it('should stop bubbling changes of removed items', () => {
+      const listener = vi.fn()
+      collection.on('change', listener)
+      collection.remove(3)
+      listener.mockClear()
+
+      models[2].setAttribute('price', 250)
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should only listen to items while the collection is observed', () => {
+      const isListened = () => !!(models[0] as any)._events?.has('change')
+      const listener = vi.fn()
+
+      collection.head(2)
+      expect(isListened()).toBe(false)
+
+      collection.on('change', listener)
+      expect(isListened()).toBe(true)
+
+      collection.off('change', listener)
+      expect(isListened()).toBe(false)
+    })
+  })
+
+  describe('withAdded and withRemoved', () => {
+    it('should return a new collection with the items added', () => {
+      const added = collection.withAdded({ id: 5, name: 'Item E' }, models[0])
+
+      expect(added).toBeInstanceOf(TestCollection)
+      expect(added).toHaveLength(5)
+      expect(added[4]).toBeInstanceOf(TestModel)
+      expect(added[0]).toBe(models[0])
+      expect(collection).toHaveLength(4)
+    })
+
+    it('should return a new collection without the item', () => {
+      const removed = collection.withRemoved(2)
+
+      expect(removed.map((item) => item.id)).toEqual([1, 3, 4])
+      expect(collection).toHaveLength(4)
+    })
+  })
+
   describe('mixed operations', () => {
     it('should support method chaining', () => {
       // Adding items, filtering, sorting, and taking the head
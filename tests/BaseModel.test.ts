@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import BaseModel from '../src/BaseModel'
 
 // Create a test model class that extends BaseModel
@@ -139,6 +139,26 @@ describe('BaseModel', () => {
     })
   })
 
+  describe('fromArray', () => {
+    it('should create one instance per row', () => {
+      const models = TestModel.fromArray([
+        { name: 'Ann', age: 31 },
+        { name: 'Bob', active: false },
+      ])
+
+      expect(models).toHaveLength(2)
+      expect(models[0]).toBeInstanceOf(TestModel)
+      expect(models[0].name).toBe('Ann')
+      expect(models[1].toJSON()).toEqual({ name: 'Bob', active: false })
+    })
+
+    it('should create empty instances for invalid rows', () => {
+      const models = TestModel.fromArray([null as any])
+
+      expect(models[0].toJSON()).toEqual({})
+    })
+  })
+
   describe('toJSON', () => {
     it('should convert model to plain object', () => {
       const json = model.toJSON()
@@ -168,6 +188,215 @@ describe('BaseModel', () => {
     })
   })
 
+  describe('dirty tracking', () => {
+    it('should start clean after hydration', () => {
+      expect(model.isDirty()).toBe(false)
+      expect(model.getDirty()).toEqual({})
+      expect(model.getChanges()).toEqual({})
+    })
+
+    it('should report the changed attributes', () => {
+      model.name = 'Jane Doe'
+      model.age = 30
+
+      expect(model.isDirty()).toBe(true)
+      expect(model.isDirty('name')).toBe(true)
+      expect(model.isDirty('age')).toBe(false)
+      expect(model.getDirty()).toEqual({ name: 'Jane Doe' })
+      expect(model.getChanges()).toEqual({ name: 'Jane Doe' })
+      expect(model.getOriginal('name')).toBe('John Doe')
+    })
+
+    it('should report removed attributes as null', () => {
+      delete (model as any)._data.email
+
+      expect(model.isDirty('email')).toBe(true)
+      expect(model.getChanges()).toEqual({ email: null })
+    })
+
+    it('should compare dates and arrays by value', () => {
+      const event = new BaseModel({
+        starts_at: new Date('2023-01-15'),
+        tags: ['a'],
+      }) as any
+
+      event.setAttribute('starts_at', new Date('2023-01-15'))
+      expect(event.isDirty()).toBe(false)
+
+      event.getAttribute('tags').push('b')
+      event.getAttribute('starts_at').setDate(16)
+      expect(event.getDirty()).toEqual({
+        starts_at: new Date('2023-01-16'),
+        tags: ['a', 'b'],
+      })
+      expect(event.getOriginal()).toEqual({
+        starts_at: new Date('2023-01-15'),
+        tags: ['a'],
+      })
+    })
+
+    it('should make the current values original on syncOriginal()', () => {
+      model.name = 'Jane Doe'
+
+      expect(model.syncOriginal()).toBe(model)
+      expect(model.isDirty()).toBe(false)
+      expect(model.getOriginal('name')).toBe('Jane Doe')
+    })
+
+    it('should revert one or all attributes', () => {
+      model.name = 'Jane Doe'
+      model.age = 25
+      model.setAttribute('nickname', 'JD')
+
+      model.revert('name')
+      expect(model.name).toBe('John Doe')
+      expect(model.getDirty()).toEqual({ age: 25, nickname: 'JD' })
+
+      expect(model.revert()).toBe(model)
+      expect(model.isDirty()).toBe(false)
+      expect(model.getAttributes()).toEqual({
+        name: 'John Doe',
+        email: 'john@example.com',
+        age: 30,
+        active: true,
+      })
+    })
+
+    it('should start clean when created by fromArray()', () => {
+      const [row] = TestModel.fromArray([{ name: 'Ann' }])
+
+      expect(row.isDirty()).toBe(false)
+      expect(row.getOriginal()).toEqual({ name: 'Ann' })
+    })
+  })
+
+  describe('events', () => {
+    it('should emit change events with the old and new values', () => {
+      const onName = vi.fn()
+      const onChange = vi.fn()
+      model.on('change:name', onName).on('change', onChange)
+
+      model.setAttribute('name', 'Jane Doe')
+      model.setAttribute('age', 31)
+
+      expect(onName).toHaveBeenCalledTimes(1)
+      expect(onName).toHaveBeenCalledWith({
+        type: 'change:name',
+        target: model,
+        path: 'name',
+        value: 'Jane Doe',
+        oldValue: 'John Doe',
+      })
+      expect(onChange.mock.calls.map(([event]) => event.path)).toEqual([
+        'name',
+        'age',
+      ])
+      expect(onName.mock.contexts[0]).toBe(model)
+    })
+
+    it('should not emit events for equal values', () => {
+      const event = new BaseModel({ starts_at: new Date('2023-01-15') })
+      const listener = vi.fn()
+      event.on('change', listener)
+
+      event.setAttribute('starts_at', new Date('2023-01-15'))
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should remove listeners with off()', () => {
+      const listener = vi.fn()
+      model.on('change', listener).off('change', listener)
+
+      model.setAttribute('name', 'Jane Doe')
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should emit changes made by revert()', () => {
+      model.setAttribute('name', 'Jane Doe')
+      const listener = vi.fn()
+      model.on('change:name', listener)
+
+      model.revert()
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ value: 'John Doe', oldValue: 'Jane Doe' })
+      )
+    })
+
+    it('should bubble changes of nested models', () => {
+      const address = new BaseModel({ city: 'Paris' })
+      const customer = new BaseModel({ address })
+      const listener = vi.fn()
+      customer.on('change:address', listener)
+
+      address.setAttribute('city', 'Lyon')
+
+      expect(listener).toHaveBeenCalledWith({
+        type: 'change:address',
+        target: address,
+        path: 'address.city',
+        value: 'Lyon',
+        oldValue: 'Paris',
+      })
+
+      customer.setAttribute('address', new BaseModel({ city: 'Nice' }))
+      address.setAttribute('city', 'Lille')
+      expect(listener).toHaveBeenCalledTimes(2)
+    })
+
+    it('should emit saving and saved around save()', async () => {
+      const calls: string[] = []
+      model.on('saving', () => calls.push('saving'))
+      model.on('saved', () => calls.push('saved'))
+      model.setAttribute('name', 'Jane Doe')
+
+      await model.save(async (saved) => {
+        calls.push(`persist ${saved.getChanges().name}`)
+      })
+
+      expect(calls).toEqual(['saving', 'persist Jane Doe', 'saved'])
+      expect(model.isDirty()).toBe(false)
+    })
+
+    it('should not persist when a saving listener throws', async () => {
+      const persist = vi.fn()
+      model.on('saving', () => {
+        throw new Error('invalid')
+      })
+
+      await expect(model.save(persist)).rejects.toThrow('invalid')
+      expect(persist).not.toHaveBeenCalled()
+    })
+
+    it('should emit serializing from toJSON()', () => {
+      const listener = vi.fn()
+      model.on('serializing', listener)
+
+      model.toJSON()
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'serializing', target: model })
+      )
+    })
+  })
+
+  describe('with', () => {
+    it('should return a changed copy', () => {
+      const address = new BaseModel({ city: 'Paris' })
+      const customer = new BaseModel({ name: 'Ann', address }) as any
+
+      const renamed = customer.with({ name: 'Anna' })
+
+      expect(renamed).toBeInstanceOf(BaseModel)
+      expect(renamed.getAttribute('name')).toBe('Anna')
+      expect(renamed.getAttribute('address')).toBe(address)
+      expect(customer.getAttribute('name')).toBe('Ann')
+      expect(renamed.getDirty()).toEqual({ name: 'Anna' })
+    })
+  })
+
   describe('clone', () => {
     it('should create a deep copy of the model', () => {
       const clone = model.clone() as TestModel
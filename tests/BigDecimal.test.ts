@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import BigDecimal, { RoundingMode } from '../src/BigDecimal'
+
+describe('BigDecimal', () => {
+  describe('from', () => {
+    it('parses strings, numbers and bigints', () => {
+      expect(BigDecimal.from('123.450').toString()).toBe('123.450')
+      expect(BigDecimal.from('-0.05').toString()).toBe('-0.05')
+      expect(BigDecimal.from('.5').toString()).toBe('0.5')
+      expect(BigDecimal.from(12.5).toString()).toBe('12.5')
+      expect(BigDecimal.from(1e-7).toString()).toBe('0.0000001')
+      expect(BigDecimal.from('1.5e3').toString()).toBe('1500')
+      expect(BigDecimal.from(BigInt(42)).toString()).toBe('42')
+    })
+
+    it('rejects invalid input', () => {
+      expect(() => BigDecimal.from('abc')).toThrow(
+        '"abc" is not a valid decimal'
+      )
+      expect(() => BigDecimal.from('')).toThrow()
+      expect(() => BigDecimal.from(NaN)).toThrow()
+    })
+  })
+
+  describe('arithmetic', () => {
+    it('adds and subtracts without drift', () => {
+      const total = BigDecimal.from('0.1').plus('0.2')
+
+      expect(total.toString()).toBe('0.3')
+      expect(total.equals('0.3')).toBe(true)
+      expect(BigDecimal.from('1').minus('0.01').toString()).toBe('0.99')
+    })
+
+    it('multiplies and divides', () => {
+      expect(BigDecimal.from('1.25').times('0.2').toString()).toBe('0.250')
+      expect(BigDecimal.from('10.00').dividedBy(3).toString()).toBe('3.33')
+      expect(BigDecimal.from('2').dividedBy(3, 4).toString()).toBe('0.6667')
+      expect(() => BigDecimal.from('1').dividedBy(0)).toThrow(
+        'Division by zero'
+      )
+    })
+
+    it('compares values of different scales', () => {
+      expect(BigDecimal.from('1.50').compare('1.5')).toBe(0)
+      expect(BigDecimal.from('1.49').compare('1.5')).toBe(-1)
+      expect(BigDecimal.from('-1').compare('-2')).toBe(1)
+      expect(BigDecimal.from('-1.5').abs().toString()).toBe('1.5')
+    })
+  })
+
+  describe('round', () => {
+    const round = (scale: number, mode: RoundingMode) =>
+      ['2.5', '-2.5', '2.51', '2.45'].map((value) =>
+        BigDecimal.from(value).round(scale, mode).toString()
+      )
+
+    it('supports rounding modes', () => {
+      expect(round(0, 'half-up')).toEqual(['3', '-3', '3', '2'])
+      expect(round(0, 'half-down')).toEqual(['2', '-2', '3', '2'])
+      expect(round(0, 'half-even')).toEqual(['2', '-2', '3', '2'])
+      expect(round(0, 'up')).toEqual(['3', '-3', '3', '3'])
+      expect(round(0, 'down')).toEqual(['2', '-2', '2', '2'])
+      expect(round(0, 'ceiling')).toEqual(['3', '-2', '3', '3'])
+      expect(round(0, 'floor')).toEqual(['2', '-3', '2', '2'])
+      expect(round(1, 'half-even')).toEqual(['2.5', '-2.5', '2.5', '2.4'])
+    })
+
+    it('pads to a larger scale', () => {
+      expect(BigDecimal.from('1.5').round(3).toString()).toBe('1.500')
+    })
+  })
+
+  it('serializes to a string', () => {
+    expect(JSON.stringify({ total: BigDecimal.from('0.30') })).toBe(
+      '{"total":"0.30"}'
+    )
+    expect(BigDecimal.from('0.30').toNumber()).toBe(0.3)
+  })
+})
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import CastingManager from '../src/CastingManager'
+import CastError from '../src/CastError'
+import BaseModel from '../src/BaseModel'
+import ClassBuilder from '../src/ClassBuilder'
+import BigDecimal from '../src/BigDecimal'
+import Money from '../src/Money'
 
 describe('CastingManager', () => {
   let castingManager: CastingManager
@@ -70,6 +75,891 @@ describe('CastingManager', () => {
     })
   })
 
+  describe('booleans', () => {
+    it('recognizes truthy and falsy strings', () => {
+      expect(castingManager.cast('false', 'boolean')).toBe(false)
+      expect(castingManager.cast(' OFF ', 'boolean')).toBe(false)
+      expect(castingManager.cast('no', 'bool')).toBe(false)
+      expect(castingManager.cast('0', 'boolean')).toBe(false)
+      expect(castingManager.cast('', 'boolean')).toBe(false)
+      expect(castingManager.cast('Yes', 'boolean')).toBe(true)
+      expect(castingManager.cast('on', 'boolean')).toBe(true)
+      expect(castingManager.cast(0, 'boolean')).toBe(false)
+      expect(castingManager.cast(2, 'boolean')).toBe(true)
+    })
+
+    it('falls back to truthiness for unknown strings', () => {
+      expect(castingManager.cast('maybe', 'boolean')).toBe(true)
+      expect(() =>
+        castingManager.cast('maybe', 'boolean', { strict: true })
+      ).toThrow('"maybe" is not a valid boolean')
+    })
+
+    it('accepts custom tokens', () => {
+      const manager = new CastingManager({
+        booleans: { truthy: ['Ja', 'J'], falsy: ['nein', 'n'] },
+      })
+
+      expect(manager.cast('ja', 'boolean')).toBe(true)
+      expect(manager.cast('N', 'boolean')).toBe(false)
+      expect(manager.cast('nein', 'boolean')).toBe(false)
+      expect(manager.tryCast('yes', 'boolean').ok).toBe(false)
+    })
+
+    it('serializes to real booleans', () => {
+      expect(castingManager.serialize('false', 'boolean')).toBe(false)
+      expect(castingManager.serialize(1, 'boolean')).toBe(true)
+      expect(castingManager.serialize(true, 'bool')).toBe(true)
+      expect(castingManager.serialize(null, 'boolean')).toBe(null)
+    })
+  })
+
+  describe('type expressions', () => {
+    it('keeps element parameters in colon syntax', () => {
+      expect(castingManager.cast(['1.234', '5'], 'array:decimal:1')).toEqual([
+        1.2, 5,
+      ])
+    })
+
+    it('casts parameterized and nested element types', () => {
+      expect(castingManager.cast(['1.234'], 'array<decimal(2)>')).toEqual([
+        1.23,
+      ])
+      expect(
+        castingManager.cast([['1', '2'], '3'], 'array<array<number>>')
+      ).toEqual([[1, 2], [3]])
+    })
+
+    it('passes parsed child types to casters', () => {
+      const received: any[] = []
+      castingManager.register('inspect', function (value, params) {
+        received.push(...(params || []))
+        return value
+      })
+
+      castingManager.cast(1, 'inspect<decimal(2), string>')
+      expect(received).toEqual([
+        { name: 'decimal', params: ['2'] },
+        { name: 'string', params: [] },
+      ])
+    })
+
+    it('caches parsed specs', () => {
+      const first = castingManager.parseType('array<decimal(2)>')
+      expect(castingManager.parseType('array<decimal(2)>')).toBe(first)
+    })
+
+    it('reports malformed specs', () => {
+      console.error = vi.fn()
+
+      expect(castingManager.cast('1', 'array<number')).toBe('1')
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid type spec')
+      )
+      expect(() =>
+        castingManager.cast('1', 'array<number', { strict: true })
+      ).toThrow(CastError)
+      expect(castingManager.hasCaster('array<number')).toBe(false)
+    })
+
+    it('serializes nested types', () => {
+      const dates = [[new Date('2023-01-15')], [new Date('2023-02-20')]]
+
+      expect(castingManager.serialize(dates, 'array<array<date>>')).toEqual([
+        ['2023-01-15'],
+        ['2023-02-20'],
+      ])
+    })
+  })
+
+  describe('locale numbers', () => {
+    it('reads numbers in the locale of the spec', () => {
+      expect(castingManager.cast('1.234,56', 'decimal:2:de-DE')).toBe(1234.56)
+      expect(castingManager.cast('1.234,567', 'decimal:de-DE')).toBe(1234.57)
+      expect(castingManager.cast('-1.234', 'number:de-DE')).toBe(-1234)
+      expect(castingManager.cast('1.234,6', 'integer:de-DE')).toBe(1235)
+      expect(castingManager.cast('1\u202f234,5', 'number:fr-FR')).toBe(1234.5)
+      expect(castingManager.cast("1'234.5", 'number:de-CH')).toBe(1234.5)
+    })
+
+    it('strips currency symbols and reads percentages', () => {
+      expect(castingManager.cast('1.234,50 €', 'decimal:2:de-DE')).toBe(1234.5)
+      expect(castingManager.cast('EUR 12,50', 'decimal:2:de-DE')).toBe(12.5)
+      expect(castingManager.cast('$1,234.50', 'number:en-US')).toBe(1234.5)
+      expect(castingManager.cast('12,5 %', 'number:de-DE')).toBe(0.125)
+    })
+
+    it('uses the locale of the manager', () => {
+      const manager = new CastingManager({ locale: 'de-DE' })
+
+      expect(manager.cast('1.234,56', 'decimal')).toBe(1234.56)
+      expect(manager.cast('1.234,56', 'decimal:2:en-US')).toBe(1.23)
+      expect(manager.cast(1234.5, 'number')).toBe(1234.5)
+      expect(() => manager.cast('12,3,4', 'number', { strict: true })).toThrow(
+        '"12,3,4" is not a valid number'
+      )
+    })
+
+    it('serializes canonical numbers', () => {
+      expect(castingManager.serialize('1.234,56', 'number:de-DE')).toBe(1234.56)
+      expect(castingManager.serialize(12.345, 'decimal:2')).toBe(12.35)
+      expect(castingManager.serialize(12.6, 'integer')).toBe(13)
+      expect(castingManager.serialize(null, 'number')).toBe(null)
+    })
+  })
+
+  describe('child managers', () => {
+    it('falls back to the casters of the parent', () => {
+      const child = castingManager.createChild()
+
+      expect(child.cast('12', 'number')).toBe(12)
+      expect(child.cast(['1', '2'], 'array<integer>')).toEqual([1, 2])
+      expect(child.serialize(new Date('2023-01-15'), 'date')).toBe('2023-01-15')
+    })
+
+    it('overrides casters without affecting the parent', () => {
+      const child = castingManager.createChild()
+      child.register(
+        'date',
+        (value: any) => castingManager.cast(value, 'date:DD/MM/YYYY'),
+        (value: any) => castingManager.serialize(value, 'date:DD/MM/YYYY')
+      )
+      child.register('slug', (value: any) => String(value).toLowerCase())
+
+      expect(child.serialize(child.cast('15/01/2023', 'date'), 'date')).toBe(
+        '15/01/2023'
+      )
+      expect(child.cast(['15/01/2023'], 'array:date')[0]).toEqual(
+        new Date('2023-01-15')
+      )
+      expect(castingManager.cast('2023-01-15', 'date')).toEqual(
+        new Date('2023-01-15')
+      )
+      expect(child.hasCaster('slug')).toBe(true)
+      expect(castingManager.hasCaster('slug')).toBe(false)
+    })
+
+    it('sees registrations made on the parent later', () => {
+      const child = castingManager.createChild()
+      castingManager.registerEnum('Status', ['draft', 'published'])
+
+      expect(child.cast('DRAFT', 'Status')).toBe('draft')
+      expect(child.getEnumMembers('enum:Status')).toHaveLength(2)
+    })
+
+    it('inherits options unless overridden', () => {
+      const parent = new CastingManager({ strict: true, locale: 'de-DE' })
+      const child = parent.createChild({ timezone: 'Europe/Paris' })
+
+      expect(child.locale).toBe('de-DE')
+      expect(child.timezone).toBe('Europe/Paris')
+      expect(() => child.cast('abc', 'number')).toThrow(CastError)
+      expect(parent.createChild({ strict: false }).cast('abc', 'number')).toBe(
+        0
+      )
+    })
+  })
+
+  describe('type registry', () => {
+    it('lists registered types', () => {
+      castingManager.registerModel('user', BaseModel)
+      castingManager.registerEnum('Status', ['draft'])
+
+      const types = castingManager.listTypes()
+      expect(types).toContain('decimal')
+      expect(types).toContain('userCollection')
+      expect(types).toContain('Status')
+      expect(types).toEqual([...types].sort((a, b) => a.localeCompare(b)))
+    })
+
+    it('describes types', () => {
+      castingManager.registerModel('user', BaseModel)
+
+      expect(castingManager.describe('decimal:2')).toMatchObject({
+        name: 'decimal',
+        params: ['2'],
+        origin: 'built-in',
+        inherited: false,
+      })
+      expect(castingManager.describe('string')?.serializer).toBe(null)
+      expect(castingManager.describe('date')?.caster).toBeTypeOf('function')
+      expect(castingManager.describe('userCollection')?.origin).toBe('model')
+      expect(castingManager.describe('decmial')).toBe(null)
+      expect(castingManager.describe('array<number')).toBe(null)
+    })
+
+    it('describes inherited types', () => {
+      const child = castingManager.createChild()
+      child.register('slug', (value: any) => String(value))
+
+      expect(child.describe('number')).toMatchObject({
+        origin: 'built-in',
+        inherited: true,
+      })
+      expect(child.describe('slug')).toMatchObject({
+        origin: 'custom',
+        inherited: false,
+      })
+      expect(child.listTypes()).toContain('slug')
+      expect(castingManager.listTypes()).not.toContain('slug')
+    })
+
+    it('registers aliases', () => {
+      castingManager.alias('int', 'integer')
+
+      expect(castingManager.cast('4.6', 'int')).toBe(5)
+      expect(castingManager.cast(['1'], 'array<int>')).toEqual([1])
+      expect(castingManager.serialize(4.6, 'int')).toBe(5)
+      expect(castingManager.describe('int')).toMatchObject({
+        name: 'int',
+        origin: 'alias',
+        target: 'integer',
+      })
+    })
+
+    it('resolves aliases to the current target', () => {
+      castingManager.alias('flag', 'bool')
+      castingManager.register('bool', () => 'custom')
+
+      expect(castingManager.cast('yes', 'flag')).toBe('custom')
+      expect(() => castingManager.alias('x', 'unknown')).toThrow(
+        'Cannot alias unknown type "unknown"'
+      )
+      expect(() => castingManager.alias('bool', 'flag')).toThrow(
+        'Alias "bool" cannot refer to itself'
+      )
+    })
+
+    it('unregisters types', () => {
+      const child = castingManager.createChild()
+      child.register('number', () => 42)
+
+      expect(child.unregister('number')).toBe(true)
+      expect(child.cast('12', 'number')).toBe(12)
+      expect(child.unregister('number')).toBe(false)
+
+      expect(castingManager.unregister('number')).toBe(true)
+      expect(castingManager.hasCaster('number')).toBe(false)
+      expect(castingManager.describe('number')).toBe(null)
+    })
+  })
+
+  describe('async casters', () => {
+    const users: Record<string, { name: string }> = {
+      1: { name: 'Ann' },
+      2: { name: 'Bob' },
+    }
+
+    beforeEach(() => {
+      castingManager.registerAsync('user', async (id: any) => {
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        if (!users[id]) {
+          throw new Error(`unknown user ${id}`)
+        }
+        return users[id]
+      })
+    })
+
+    it('keeps values of async types in synchronous casts', () => {
+      expect(castingManager.cast('1', 'user')).toBe('1')
+      expect(castingManager.cast(['1'], 'array<user>')).toEqual(['1'])
+    })
+
+    it('awaits async casters', async () => {
+      expect(await castingManager.castAsync('1', 'user')).toEqual({
+        name: 'Ann',
+      })
+      expect(
+        await castingManager.castAsync({ a: 1, b: '2' }, 'record<user>')
+      ).toEqual({ a: { name: 'Ann' }, b: { name: 'Bob' } })
+      expect(await castingManager.castAsync('12', 'number')).toBe(12)
+    })
+
+    it('resolves equal values once', async () => {
+      const resolver = vi.fn(async (value: any) => `#${value}`)
+      castingManager.registerAsync('tag', resolver)
+
+      expect(
+        await castingManager.castAsync(['a', 'b', 'a'], 'array<tag>')
+      ).toEqual(['#a', '#b', '#a'])
+      expect(resolver).toHaveBeenCalledTimes(2)
+    })
+
+    it('limits the number of concurrent casts', async () => {
+      let running = 0
+      let maximum = 0
+      castingManager.registerAsync('slow', async (value: any) => {
+        running++
+        maximum = Math.max(maximum, running)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        running--
+        return value * 2
+      })
+
+      const result = await castingManager.castAsync(
+        [1, 2, 3, 4, 5, 6],
+        'array<slow>',
+        { concurrency: 2 }
+      )
+
+      expect(result).toEqual([2, 4, 6, 8, 10, 12])
+      expect(maximum).toBe(2)
+    })
+
+    it('reports failed async casts', async () => {
+      console.error = vi.fn()
+
+      expect(await castingManager.castAsync(['1', '9'], 'array<user>')).toEqual(
+        [{ name: 'Ann' }, '9']
+      )
+      expect(console.error).toHaveBeenCalled()
+      await expect(
+        castingManager.castAsync(['1', '9'], 'array<user>', { strict: true })
+      ).rejects.toThrow('Cannot cast value to "user" at "1": unknown user 9')
+    })
+  })
+
+  describe('transformers', () => {
+    it('applies transformers in order after the cast', () => {
+      expect(castingManager.cast('  Hello ', 'string|trim|lowercase')).toBe(
+        'hello'
+      )
+      expect(castingManager.cast('150', 'integer|clamp:0:100')).toBe(100)
+      expect(castingManager.cast(-3, 'integer|clamp:0:100')).toBe(0)
+      expect(castingManager.cast('-3', 'number|clamp::100')).toBe(-3)
+      expect(castingManager.cast([' a', 'B '], 'array<string|trim>')).toEqual([
+        'a',
+        'B',
+      ])
+    })
+
+    it('keeps union members that are not transformers', () => {
+      expect(castingManager.cast(' x ', 'number|string|trim')).toBe('x')
+      expect(castingManager.cast('12', 'number|string|trim')).toBe(12)
+      expect(castingManager.hasCaster('string|trim')).toBe(true)
+      expect(castingManager.hasSerializer('string|trim')).toBe(false)
+    })
+
+    it('skips transformers for null values', () => {
+      expect(castingManager.cast(null, 'string?|trim')).toBe(null)
+      expect(castingManager.cast(null, 'string|uppercase')).toBe(null)
+    })
+
+    it('registers custom transformers with reverse functions', () => {
+      castingManager.registerTransformer(
+        'percent',
+        (value: number) => value / 100,
+        (value: number) => value * 100
+      )
+
+      expect(castingManager.hasTransformer('percent')).toBe(true)
+      expect(castingManager.cast('25', 'number|percent')).toBe(0.25)
+      expect(castingManager.serialize(0.25, 'decimal:2|percent')).toBe(25)
+    })
+
+    it('reports failing transformers', () => {
+      castingManager.registerTransformer('positive', (value: number) => {
+        if (value < 0) throw new Error('must be positive')
+        return value
+      })
+
+      expect(() =>
+        castingManager.cast('-1', 'number|positive', {
+          strict: true,
+          path: 'qty',
+        })
+      ).toThrow('Cannot cast value to "number|positive" at "qty"')
+    })
+  })
+
+  describe('nullable, required and union types', () => {
+    it('keeps null for nullable types', () => {
+      expect(castingManager.cast(null, 'boolean')).toBe(false)
+      expect(castingManager.cast(null, 'boolean?')).toBe(null)
+      expect(castingManager.cast(undefined, 'array:number?')).toBe(null)
+      expect(castingManager.cast(null, 'array')).toEqual([])
+      expect(castingManager.cast(null, 'boolean', { nullable: true })).toBe(
+        null
+      )
+      expect(castingManager.cast('1', 'number?')).toBe(1)
+    })
+
+    it('applies nullable to elements of nested types', () => {
+      expect(castingManager.cast([null, '2', false], 'array<number?>')).toEqual(
+        [null, 2, 0]
+      )
+    })
+
+    it('rejects missing required values', () => {
+      console.error = vi.fn()
+
+      expect(castingManager.cast(null, 'string', { required: true })).toBe(null)
+      expect(console.error).toHaveBeenCalledWith(
+        'A value is required for string'
+      )
+      expect(() =>
+        castingManager.cast(undefined, 'string', {
+          required: true,
+          strict: true,
+          path: 'name',
+        })
+      ).toThrow('Cannot cast value to "string" at "name": a value is required')
+      expect(castingManager.cast('', 'string', { required: true })).toBe('')
+    })
+
+    it('tries union members in order', () => {
+      expect(castingManager.cast('12', 'number|string')).toBe(12)
+      expect(castingManager.cast('abc', 'number|string')).toBe('abc')
+      expect(castingManager.cast(['1', 'a'], 'array<number|string>')).toEqual([
+        1,
+        'a',
+      ])
+      expect(castingManager.cast(null, 'number|string?')).toBe(null)
+    })
+
+    it('fails when no union member matches', () => {
+      expect(() =>
+        castingManager.cast('abc', 'number|integer', { strict: true })
+      ).toThrow('value does not match any of number, integer')
+    })
+
+    it('serializes unions with the matching member', () => {
+      const date = new Date('2023-05-15T12:00:00Z')
+
+      expect(castingManager.serialize(date, 'date|string')).toBe('2023-05-15')
+      expect(castingManager.serialize('today', 'date|string')).toBe('today')
+    })
+  })
+
+  describe('enums', () => {
+    it('casts inline enums ignoring case', () => {
+      const type = 'enum:draft,published,archived'
+
+      expect(castingManager.cast('draft', type)).toBe('draft')
+      expect(castingManager.cast(' Published ', type)).toBe('published')
+      expect(castingManager.cast(null, type)).toBe(null)
+      expect(castingManager.cast('DRAFT', 'enum(draft, published)')).toBe(
+        'draft'
+      )
+    })
+
+    it('casts registered enums by value or label', () => {
+      castingManager.registerEnum('OrderStatus', {
+        Pending: 'P',
+        Shipped: 'S',
+      })
+
+      expect(castingManager.cast('S', 'OrderStatus')).toBe('S')
+      expect(castingManager.cast('pending', 'OrderStatus')).toBe('P')
+      expect(castingManager.cast('shipped', 'enum:OrderStatus')).toBe('S')
+      expect(castingManager.serialize('S', 'OrderStatus')).toBe('S')
+    })
+
+    it('keeps numeric values', () => {
+      castingManager.registerEnum('Priority', { Low: 1, High: 2 })
+
+      expect(castingManager.cast('2', 'Priority')).toBe(2)
+      expect(castingManager.cast('low', 'Priority')).toBe(1)
+    })
+
+    it('flags or rejects unknown members', () => {
+      console.error = vi.fn()
+
+      expect(castingManager.cast('deleted', 'enum:draft,published')).toBe(
+        'deleted'
+      )
+      expect(console.error).toHaveBeenCalled()
+      expect(() =>
+        castingManager.cast('deleted', 'enum:draft,published', {
+          strict: true,
+        })
+      ).toThrow('"deleted" is not one of draft, published')
+    })
+
+    it('lists the allowed members', () => {
+      castingManager.registerEnum('Size', ['S', 'M', 'L'])
+
+      expect(castingManager.getEnumMembers('enum:draft,published')).toEqual([
+        { value: 'draft', label: 'draft' },
+        { value: 'published', label: 'published' },
+      ])
+      expect(castingManager.getEnumMembers('Size?')).toEqual([
+        { value: 'S', label: 'S' },
+        { value: 'M', label: 'M' },
+        { value: 'L', label: 'L' },
+      ])
+      expect(castingManager.getEnumMembers('string')).toBe(null)
+    })
+  })
+
+  describe('records, maps and sets', () => {
+    it('casts records with typed values', () => {
+      expect(
+        castingManager.cast({ 'SKU-1': '2', 'SKU-2': 3.7 }, 'record:integer')
+      ).toEqual({ 'SKU-1': 2, 'SKU-2': 4 })
+      expect(
+        castingManager.cast({ a: '1.234' }, 'record<string, decimal(2)>')
+      ).toEqual({ a: 1.23 })
+      expect(castingManager.cast(null, 'record:integer')).toEqual({})
+      expect(castingManager.cast(null, 'record:integer?')).toBe(null)
+    })
+
+    it('casts maps with typed keys and values', () => {
+      const map = castingManager.cast(
+        { 1: '1.5', 2: '2.25' },
+        'map:integer,decimal:1'
+      )
+
+      expect(map).toBeInstanceOf(Map)
+      expect(map.get(1)).toBe(1.5)
+      expect(map.get(2)).toBe(2.3)
+
+      const fromEntries = castingManager.cast(
+        [['a', '1']],
+        'map<string, number>'
+      )
+      expect(Array.from(fromEntries.entries())).toEqual([['a', 1]])
+    })
+
+    it('casts sets with typed items', () => {
+      const set = castingManager.cast(['a', 'b', 'a', 1], 'set:string')
+
+      expect(set).toBeInstanceOf(Set)
+      expect(Array.from(set)).toEqual(['a', 'b', '1'])
+      expect(castingManager.cast(null, 'set:string').size).toBe(0)
+    })
+
+    it('reports invalid values with their key in the path', () => {
+      const result = castingManager.tryCast(
+        { a: '1', b: 'x' },
+        'record:integer'
+      )
+
+      expect(result.error?.path).toBe('b')
+      expect(() =>
+        castingManager.cast('abc', 'record:integer', { strict: true })
+      ).toThrow('expected an object, a Map or a list of entries')
+    })
+
+    it('serializes back to plain objects and arrays', () => {
+      const record = castingManager.cast({ start: '2023-01-15' }, 'record:date')
+      expect(castingManager.serialize(record, 'record:date')).toEqual({
+        start: '2023-01-15',
+      })
+
+      const map = castingManager.cast({ 1: '2.5' }, 'map<integer, decimal>')
+      expect(castingManager.serialize(map, 'map<integer, decimal>')).toEqual({
+        1: 2.5,
+      })
+
+      const set = castingManager.cast(['2023-01-15'], 'set:date')
+      expect(castingManager.serialize(set, 'set:date')).toEqual(['2023-01-15'])
+    })
+
+    it('round-trips through model serialization', () => {
+      const builder = new ClassBuilder(castingManager)
+      const Stock = builder.newModelClass({
+        quantities: 'record:integer',
+        prices: 'map:string,decimal',
+        tags: 'set:string',
+      })
+
+      const stock = new Stock({
+        quantities: { 'SKU-1': '2' },
+        prices: { 'SKU-1': '9.999' },
+        tags: ['new', 'new', 'sale'],
+      })
+
+      expect(stock.toJSON()).toEqual({
+        quantities: { 'SKU-1': 2 },
+        prices: { 'SKU-1': 10 },
+        tags: ['new', 'sale'],
+      })
+    })
+  })
+
+  describe('tuples', () => {
+    it('casts each position with its own type', () => {
+      expect(
+        castingManager.cast(['1.5', '2'], 'tuple<number, number>')
+      ).toEqual([1.5, 2])
+      expect(
+        castingManager.cast(['9.999', 'EUR'], 'tuple:decimal:2,string')
+      ).toEqual([10, 'EUR'])
+    })
+
+    it('pads and truncates to the declared length', () => {
+      expect(castingManager.cast(['1'], 'tuple<number, string>')).toEqual([
+        1,
+        null,
+      ])
+      expect(
+        castingManager.cast(['1', '2', '3'], 'tuple<number, number>')
+      ).toEqual([1, 2])
+      expect(castingManager.cast(null, 'tuple<number, number>')).toEqual([
+        null,
+        null,
+      ])
+    })
+
+    it('rejects values that are not arrays', () => {
+      expect(() =>
+        castingManager.cast('1,2', 'tuple<number, number>', { strict: true })
+      ).toThrow('expected an array')
+    })
+
+    it('serializes each position', () => {
+      const range = castingManager.cast(
+        ['2023-01-15', '2023-01-20'],
+        'tuple<date, date>'
+      )
+
+      expect(castingManager.serialize(range, 'tuple<date, date>')).toEqual([
+        '2023-01-15',
+        '2023-01-20',
+      ])
+    })
+
+    it('works as a model prop', () => {
+      const builder = new ClassBuilder(castingManager)
+      const Place = builder.newModelClass({
+        location: 'tuple:number,number',
+      })
+
+      const place = new Place({ location: ['44.43', '26.1', '0'] })
+      expect(place.location).toEqual([44.43, 26.1])
+      expect(place.toJSON()).toEqual({ location: [44.43, 26.1] })
+    })
+  })
+
+  describe('date formats and timezones', () => {
+    it('parses and formats dates with a custom format', () => {
+      const date = castingManager.cast('15/01/2023', 'date:DD/MM/YYYY')
+
+      expect(date.toISOString()).toBe('2023-01-15T00:00:00.000Z')
+      expect(castingManager.serialize(date, 'date:DD/MM/YYYY')).toBe(
+        '15/01/2023'
+      )
+      expect(castingManager.serialize(date, 'date')).toBe('2023-01-15')
+    })
+
+    it('parses and formats datetimes with a custom format', () => {
+      const type = 'datetime(DD.MM.YYYY HH:mm)'
+      const datetime = castingManager.cast('15.01.2023 14:30', type)
+
+      expect(datetime.toISOString()).toBe('2023-01-15T14:30:00.000Z')
+      expect(castingManager.serialize(datetime, type)).toBe('15.01.2023 14:30')
+      expect(castingManager.serialize(datetime, 'datetime')).toBe(
+        '2023-01-15T14:30:00.000Z'
+      )
+    })
+
+    it('rejects values that do not match the format', () => {
+      expect(
+        isNaN(castingManager.cast('2023-01-15', 'date:DD/MM/YYYY').getTime())
+      ).toBe(true)
+      expect(() =>
+        castingManager.cast('31/02/2023', 'date:DD/MM/YYYY', { strict: true })
+      ).toThrow('"31/02/2023" is not a valid date')
+      expect(() =>
+        castingManager.cast('not a date', 'date', { strict: true })
+      ).toThrow(CastError)
+    })
+
+    it('uses the default timezone of the manager', () => {
+      const manager = new CastingManager({ timezone: 'America/New_York' })
+
+      const winter = manager.cast('2023-01-15', 'date')
+      const summer = manager.cast('2023-07-01', 'date')
+      expect(winter.toISOString()).toBe('2023-01-15T05:00:00.000Z')
+      expect(summer.toISOString()).toBe('2023-07-01T04:00:00.000Z')
+      expect(manager.serialize(winter, 'date')).toBe('2023-01-15')
+      expect(manager.serialize(summer, 'date')).toBe('2023-07-01')
+
+      const datetime = manager.cast('2023-01-15T22:30', 'datetime')
+      expect(datetime.toISOString()).toBe('2023-01-16T03:30:00.000Z')
+      expect(manager.cast('2023-01-15T22:30:00Z', 'datetime').getTime()).toBe(
+        Date.UTC(2023, 0, 15, 22, 30)
+      )
+    })
+
+    it('accepts a timezone per type spec', () => {
+      const date = castingManager.cast(
+        '15/01/2023',
+        'date(DD/MM/YYYY, Europe/Bucharest)'
+      )
+
+      expect(date.toISOString()).toBe('2023-01-14T22:00:00.000Z')
+      expect(castingManager.serialize(date, 'date')).toBe('2023-01-14')
+      expect(
+        castingManager.serialize(date, 'date(YYYY-MM-DD, Europe/Bucharest)')
+      ).toBe('2023-01-15')
+    })
+
+    it('keeps the calendar day in local date mode', () => {
+      const manager = new CastingManager({ timezone: 'local' })
+
+      const birthdate = manager.cast('1990-05-15', 'date')
+      expect(birthdate.getFullYear()).toBe(1990)
+      expect(birthdate.getMonth()).toBe(4)
+      expect(birthdate.getDate()).toBe(15)
+      expect(manager.serialize(birthdate, 'date')).toBe('1990-05-15')
+      expect(manager.serialize(new Date(1990, 4, 15), 'date')).toBe(
+        '1990-05-15'
+      )
+    })
+  })
+
+  describe('bigdecimal and money', () => {
+    it('casts exact decimals', () => {
+      const value = castingManager.cast('0.1', 'bigdecimal')
+
+      expect(value).toBeInstanceOf(BigDecimal)
+      expect(value.plus('0.2').toString()).toBe('0.3')
+      expect(castingManager.cast(2.345, 'bigdecimal:2').toString()).toBe('2.35')
+      expect(
+        castingManager.cast('2.345', 'bigdecimal:2:half-even').toString()
+      ).toBe('2.34')
+      expect(castingManager.serialize(value, 'bigdecimal')).toBe('0.1')
+    })
+
+    it('rejects invalid decimals', () => {
+      expect(() =>
+        castingManager.cast('ten', 'bigdecimal', { strict: true })
+      ).toThrow('"ten" is not a valid decimal')
+      expect(() =>
+        castingManager.cast('1', 'bigdecimal:2:sideways', { strict: true })
+      ).toThrow('unknown rounding mode "sideways"')
+    })
+
+    it('casts money in a currency', () => {
+      const price = castingManager.cast('19.999', 'money:EUR')
+
+      expect(price).toBeInstanceOf(Money)
+      expect(price.toString()).toBe('20.00 EUR')
+      expect(castingManager.cast('12.5 EUR', 'money:EUR').toString()).toBe(
+        '12.50 EUR'
+      )
+      expect(
+        castingManager
+          .cast({ amount: '1500', currency: 'JPY' }, 'money')
+          .toString()
+      ).toBe('1500 JPY')
+      expect(castingManager.cast(price, 'money:EUR')).toBe(price)
+      expect(castingManager.serialize(price, 'money:EUR')).toEqual({
+        amount: '20.00',
+        currency: 'EUR',
+      })
+    })
+
+    it('rejects money in the wrong or a missing currency', () => {
+      expect(() =>
+        castingManager.cast('12 USD', 'money:EUR', { strict: true })
+      ).toThrow('expected EUR, got USD')
+      expect(() =>
+        castingManager.cast('12', 'money', { strict: true })
+      ).toThrow('a currency is required')
+    })
+
+    it('aggregates model collections exactly', () => {
+      const builder = new ClassBuilder(castingManager)
+      const Line = builder.newModelClass({ total: 'money:EUR' })
+      const Lines = builder.newCollectionClass(Line)
+
+      const lines = new Lines([
+        { total: '0.10' },
+        { total: '0.20' },
+        { total: '0.30' },
+      ])
+      expect(lines.sum('total').toString()).toBe('0.60 EUR')
+    })
+  })
+
+  describe('format types', () => {
+    it('normalizes UUIDs', () => {
+      const uuid = '3F2504E0-4F89-11D3-9A0C-0305E82C3301'
+
+      expect(castingManager.cast(uuid, 'uuid')).toBe(uuid.toLowerCase())
+      expect(castingManager.cast(`{${uuid}}`, 'uuid')).toBe(uuid.toLowerCase())
+      expect(castingManager.serialize(uuid, 'uuid')).toBe(uuid.toLowerCase())
+      expect(() =>
+        castingManager.cast('3f2504e0-4f89', 'uuid', { strict: true })
+      ).toThrow('"3f2504e0-4f89" is not a valid UUID')
+    })
+
+    it('normalizes and validates emails', () => {
+      expect(castingManager.cast(' Ann@Example.COM ', 'email')).toBe(
+        'Ann@example.com'
+      )
+      expect(castingManager.tryCast('ann@', 'email').error?.message).toContain(
+        '"ann@" is not a valid email address'
+      )
+      expect(castingManager.cast(null, 'email')).toBe(null)
+    })
+
+    it('hydrates URLs', () => {
+      const url = castingManager.cast('https://example.com/a?b=1', 'url')
+
+      expect(url).toBeInstanceOf(URL)
+      expect(url.searchParams.get('b')).toBe('1')
+      expect(castingManager.serialize(url, 'url')).toBe(
+        'https://example.com/a?b=1'
+      )
+      expect(castingManager.tryCast('not a url', 'url').ok).toBe(false)
+    })
+
+    it('parses and stringifies JSON', () => {
+      expect(castingManager.cast('{"a":[1,2]}', 'json')).toEqual({ a: [1, 2] })
+      expect(castingManager.cast({ a: 1 }, 'json')).toEqual({ a: 1 })
+      expect(castingManager.serialize({ a: 1 }, 'json')).toBe('{"a":1}')
+      expect(castingManager.serialize(null, 'json')).toBeNull()
+      expect(castingManager.serialize(null, 'json?')).toBeNull()
+      expect(() =>
+        castingManager.cast('{a:1}', 'json', { strict: true })
+      ).toThrow('invalid JSON')
+    })
+
+    it('hydrates bytes from base64', () => {
+      const bytes = castingManager.cast('aGVsbG8=', 'base64')
+
+      expect(bytes).toBeInstanceOf(Uint8Array)
+      expect(Array.from(bytes)).toEqual([104, 101, 108, 108, 111])
+      expect(Array.from(castingManager.cast('aGVsbG8', 'bytes'))).toEqual([
+        104, 101, 108, 108, 111,
+      ])
+      expect(castingManager.cast([1, 2], 'bytes')).toEqual(
+        new Uint8Array([1, 2])
+      )
+      expect(castingManager.serialize(bytes, 'base64')).toBe('aGVsbG8=')
+      expect(castingManager.serialize([104, 105], 'bytes')).toBe('aGk=')
+      expect(castingManager.tryCast('a$b', 'base64').ok).toBe(false)
+    })
+
+    it('encodes and decodes base64 without atob() and btoa()', () => {
+      vi.stubGlobal('atob', undefined)
+      vi.stubGlobal('btoa', undefined)
+      const bytes = Uint8Array.from({ length: 256 }, (_, i) => i)
+
+      ;[0, 1, 2, 3, 256].forEach((length) => {
+        const encoded = castingManager.serialize(
+          bytes.slice(0, length),
+          'bytes'
+        )
+        expect(encoded).toBe(
+          Buffer.from(bytes.slice(0, length)).toString('base64')
+        )
+        expect(castingManager.cast(encoded, 'bytes')).toEqual(
+          bytes.slice(0, length)
+        )
+      })
+      expect(Array.from(castingManager.cast('-_8', 'bytes'))).toEqual([
+        251, 255,
+      ])
+      vi.unstubAllGlobals()
+      expect(castingManager.tryCast([1, 300], 'bytes').ok).toBe(false)
+    })
+  })
+
   describe('serialize', () => {
     it('formats dates as YYYY-MM-DD', () => {
       const date = new Date('2023-05-15T12:00:00Z')
@@ -102,6 +992,238 @@ describe('CastingManager', () => {
     })
   })
 
+  describe('model serializers', () => {
+    let User: any
+
+    beforeEach(() => {
+      User = new ClassBuilder(castingManager).newModelClass({
+        id: 'integer',
+        name: 'string',
+      })
+      castingManager.registerModel('user', User)
+    })
+
+    it('registers serializers for models and collections', () => {
+      expect(castingManager.hasSerializer('user')).toBe(true)
+      expect(castingManager.hasSerializer('userCollection')).toBe(true)
+
+      const users = castingManager.cast(
+        [{ id: '1', name: 'Ann' }],
+        'userCollection'
+      )
+      expect(castingManager.serialize(users[0], 'user')).toEqual({
+        id: 1,
+        name: 'Ann',
+      })
+      expect(castingManager.serialize(users, 'userCollection')).toEqual([
+        { id: 1, name: 'Ann' },
+      ])
+    })
+
+    it('serializes models as their ids', () => {
+      const users = castingManager.cast(
+        [{ id: 1 }, { id: '2' }],
+        'userCollection'
+      )
+
+      expect(castingManager.serialize(users[0], 'user:id')).toBe(1)
+      expect(castingManager.serialize(users, 'userCollection:id')).toEqual([
+        1, 2,
+      ])
+      expect(castingManager.serialize(3, 'user:id')).toBe(3)
+      expect(castingManager.serialize({ id: '4' }, 'user:id')).toBe(4)
+    })
+
+    it('omits empty collections and models', () => {
+      const empty = castingManager.cast([], 'userCollection')
+
+      expect(castingManager.serialize(empty, 'userCollection')).toEqual([])
+      expect(
+        castingManager.serialize(empty, 'userCollection:omitEmpty')
+      ).toBeUndefined()
+      expect(castingManager.serialize(null, 'userCollection')).toBe(null)
+      expect(
+        castingManager.serialize(null, 'user:id:omitEmpty')
+      ).toBeUndefined()
+    })
+
+    it('controls the output of embedded relations', () => {
+      const Team = new ClassBuilder(castingManager).newModelClass({
+        name: 'string',
+        owner: 'user:id',
+        members: 'userCollection:id:omitEmpty',
+      })
+
+      const team = new Team({
+        name: 'Core',
+        owner: { id: 1, name: 'Ann' },
+        members: [],
+      })
+
+      expect(team.members).toHaveLength(0)
+      expect('members' in team.toJSON()).toBe(false)
+
+      team.members.push({ id: 2 })
+      expect(team.toJSON()).toEqual({ name: 'Core', owner: 1, members: [2] })
+    })
+  })
+
+  describe('polymorphic models', () => {
+    let CardPayment: any
+    let BankPayment: any
+
+    beforeEach(() => {
+      const builder = new ClassBuilder(castingManager)
+      CardPayment = builder.newModelClass({
+        kind: 'string',
+        amount: 'decimal',
+        last4: 'string',
+      })
+      BankPayment = builder.newModelClass({
+        kind: 'string',
+        amount: 'decimal',
+        iban: 'string',
+      })
+      castingManager.registerPolymorphic('Payment', 'kind', {
+        card: CardPayment,
+        bank: BankPayment,
+      })
+    })
+
+    it('picks the class from the discriminator field', () => {
+      const payment = castingManager.cast(
+        { kind: 'bank', amount: '10.5', iban: 'DE89' },
+        'Payment'
+      )
+
+      expect(payment).toBeInstanceOf(BankPayment)
+      expect(payment.amount).toBe(10.5)
+      expect(castingManager.cast(payment, 'Payment')).toBe(payment)
+      expect(castingManager.cast(null, 'Payment')).toBe(null)
+    })
+
+    it('hydrates mixed collections', () => {
+      const payments = castingManager.cast(
+        [
+          { kind: 'card', amount: 5, last4: '4242' },
+          { kind: 'bank', amount: 7, iban: 'DE89' },
+        ],
+        'PaymentCollection'
+      )
+
+      expect(payments[0]).toBeInstanceOf(CardPayment)
+      expect(payments[1]).toBeInstanceOf(BankPayment)
+      expect(payments.sum('amount')).toBe(12)
+
+      payments.push({ kind: 'card', amount: 1 })
+      expect(payments[2]).toBeInstanceOf(CardPayment)
+      expect(castingManager.serialize(payments, 'PaymentCollection')).toEqual([
+        { kind: 'card', amount: 5, last4: '4242' },
+        { kind: 'bank', amount: 7, iban: 'DE89' },
+        { kind: 'card', amount: 1 },
+      ])
+    })
+
+    it('rejects unknown or missing discriminators', () => {
+      expect(() =>
+        castingManager.cast([{ kind: 'cash' }], 'PaymentCollection', {
+          strict: true,
+        })
+      ).toThrow(
+        'Cannot cast value to "Payment" at "0": unknown kind "cash", expected one of card, bank'
+      )
+      expect(
+        castingManager.tryCast({ amount: 1 }, 'Payment').error?.message
+      ).toContain('missing discriminator "kind"')
+    })
+
+    it('ignores inherited keys of the class map', () => {
+      ;['constructor', 'toString', '__proto__'].forEach((kind) => {
+        expect(() =>
+          castingManager.cast({ kind }, 'Payment', { strict: true })
+        ).toThrow(`unknown kind "${kind}", expected one of card, bank`)
+      })
+    })
+  })
+
+  describe('class types', () => {
+    class GeoPoint {
+      lat: number
+      lng: number
+
+      constructor(data: { lat: any; lng: any }) {
+        this.lat = Number(data.lat)
+        this.lng = Number(data.lng)
+      }
+    }
+
+    class Color {
+      constructor(readonly hex: string) {}
+
+      static fromJSON(value: string) {
+        return new Color(value.toLowerCase())
+      }
+
+      toJSON() {
+        return this.hex
+      }
+    }
+
+    it('constructs instances from plain values', () => {
+      castingManager.registerClass('GeoPoint', GeoPoint)
+      const point = castingManager.cast(
+        { lat: '52.5', lng: '13.4' },
+        'GeoPoint'
+      )
+
+      expect(point).toBeInstanceOf(GeoPoint)
+      expect(point.lat).toBe(52.5)
+      expect(castingManager.cast(point, 'GeoPoint')).toBe(point)
+      expect(castingManager.cast(null, 'GeoPoint')).toBe(null)
+      expect(castingManager.serialize(point, 'GeoPoint')).toEqual({
+        lat: 52.5,
+        lng: 13.4,
+      })
+      expect(castingManager.describe('GeoPoint')?.origin).toBe('class')
+    })
+
+    it('uses the static fromJSON and the toJSON of the class', () => {
+      castingManager.registerClass('Color', Color)
+
+      const color = castingManager.cast('#FFAA00', 'Color')
+      expect(color).toBeInstanceOf(Color)
+      expect(castingManager.serialize(color, 'Color')).toBe('#ffaa00')
+    })
+
+    it('accepts custom conversions', () => {
+      castingManager.registerClass('GeoPoint', GeoPoint, {
+        fromJSON: (value: string) => {
+          const [lat, lng] = value.split(',')
+          return new GeoPoint({ lat, lng })
+        },
+        toJSON: (point) => `${point.lat},${point.lng}`,
+      })
+
+      const points = castingManager.cast(['1,2', '3,4'], 'array<GeoPoint>')
+      expect(points[1]).toEqual(new GeoPoint({ lat: 3, lng: 4 }))
+      expect(castingManager.serialize(points, 'array<GeoPoint>')).toEqual([
+        '1,2',
+        '3,4',
+      ])
+    })
+
+    it('works as a prop type', () => {
+      castingManager.registerClass('Color', Color)
+      const Theme = new ClassBuilder(castingManager).newModelClass({
+        primary: 'Color',
+      })
+
+      const theme = new Theme({ primary: '#00F' })
+      expect(theme.primary).toBeInstanceOf(Color)
+      expect(theme.toJSON()).toEqual({ primary: '#00f' })
+    })
+  })
+
   describe('custom types', () => {
     it('allows registering and using custom types', () => {
       // Register a boolean type
@@ -169,6 +1291,62 @@ describe('CastingManager', () => {
     })
   })
 
+  describe('compiled casts', () => {
+    it('casts like cast()', () => {
+      const toPrice = castingManager.compile('decimal:2')
+
+      expect(toPrice('12.345')).toBe(12.35)
+      expect(toPrice(null)).toBe(null)
+      expect(toPrice.canCast()).toBe(true)
+    })
+
+    it('parses the spec once, when compiling', () => {
+      const parseType = vi.spyOn(castingManager, 'parseType')
+      const toPrice = castingManager.compile('decimal:2')
+
+      expect(parseType).toHaveBeenCalledTimes(1)
+      toPrice('1.5')
+      toPrice('2.5')
+      expect(parseType).toHaveBeenCalledTimes(1)
+      parseType.mockRestore()
+    })
+
+    it('applies the cast options to every call', () => {
+      const strict = new CastingManager({ strict: true })
+      const toAge = strict.compile('integer', { path: 'age', required: true })
+
+      expect(toAge('42')).toBe(42)
+      expect(() => toAge(null)).toThrow(CastError)
+      expect(() => toAge('abc')).toThrow('at "age"')
+      expect(castingManager.compile('string', { nullable: true })(null)).toBe(
+        null
+      )
+    })
+
+    it('picks up types registered after compiling', () => {
+      const child = castingManager.createChild()
+      const toCode = child.compile('code')
+
+      expect(toCode.canCast()).toBe(false)
+
+      castingManager.register('code', (value: any) => String(value))
+      expect(toCode.canCast()).toBe(true)
+      expect(toCode(12)).toBe('12')
+
+      child.register('code', (value: any) => `#${value}`)
+      expect(toCode(12)).toBe('#12')
+    })
+
+    it('reports malformed specs when casting', () => {
+      console.error = vi.fn()
+      const compiled = castingManager.compile('array<number')
+
+      expect(compiled.canCast()).toBe(false)
+      expect(compiled('1')).toBe('1')
+      expect(console.error).toHaveBeenCalled()
+    })
+  })
+
   describe('error handling', () => {
     it('handles non-existent types gracefully', () => {
       console.error = vi.fn()
@@ -200,4 +1378,108 @@ describe('CastingManager', () => {
       )
     })
   })
+  describe('strict mode', () => {
+    it('throws a CastError for invalid numbers', () => {
+      const strict = new CastingManager({ strict: true })
+
+      expect(() => strict.cast('abc', 'number')).toThrow(CastError)
+      expect(() => strict.cast('12abc', 'decimal:2')).toThrow(CastError)
+      expect(strict.cast('12.345', 'decimal:2')).toBe(12.35)
+      expect(strict.cast(null, 'number')).toBe(null)
+    })
+
+    it('rejects blank strings and non-numeric types', () => {
+      const strict = new CastingManager({ strict: true })
+
+      ;['', ' ', true, false, [], {}].forEach((value) => {
+        expect(() => strict.cast(value, 'number')).toThrow(CastError)
+        expect(() => strict.cast(value, 'decimal:2')).toThrow(CastError)
+        expect(() => strict.cast(value, 'integer')).toThrow(CastError)
+      })
+      expect(strict.cast(' 12.5 ', 'decimal:2')).toBe(12.5)
+      expect(castingManager.cast(' ', 'integer')).toBe(0)
+    })
+
+    it('can be enabled per call', () => {
+      expect(castingManager.cast('abc', 'number')).toBe(0)
+      expect(() =>
+        castingManager.cast('abc', 'number', { strict: true })
+      ).toThrow(CastError)
+    })
+
+    it('reports the type spec, value and path', () => {
+      try {
+        castingManager.cast(['1', 'x'], 'array:integer', {
+          strict: true,
+          path: 'quantities',
+        })
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(CastError)
+        const castError = error as CastError
+        expect(castError.type).toBe('integer')
+        expect(castError.value).toBe('x')
+        expect(castError.path).toBe('quantities.1')
+        expect(castError.message).toContain('quantities.1')
+      }
+    })
+
+    it('throws for unknown types', () => {
+      expect(() =>
+        castingManager.cast('value', 'nonexistent', { strict: true })
+      ).toThrow('No caster found for type: nonexistent')
+    })
+
+    it('wraps errors thrown by casters', () => {
+      castingManager.register('problematic', function () {
+        throw new Error('Test error')
+      })
+
+      expect(() =>
+        castingManager.cast('value', 'problematic', { strict: true })
+      ).toThrow(/Cannot cast value to "problematic": Test error/)
+    })
+
+    it('builds paths through nested models', () => {
+      const builder = new ClassBuilder(castingManager)
+      const Line = builder.newModelClass({ price: 'decimal:2' })
+      castingManager.registerModel('Line', Line)
+      const Order = builder.newModelClass({ lines: 'LineCollection' })
+
+      castingManager.registerModel('Order', Order)
+      const failed = castingManager.tryCast(
+        { lines: [{ price: '10' }, { price: 'ten' }] },
+        'Order'
+      )
+      expect(failed.ok).toBe(false)
+      expect(failed.error?.path).toBe('lines.1.price')
+      expect(failed.error?.value).toBe('ten')
+
+      const order = castingManager.tryCast(
+        { lines: [{ price: '10' }] },
+        'Order'
+      )
+      expect(order.ok).toBe(true)
+      expect(order.value).toBeInstanceOf(BaseModel)
+    })
+  })
+
+  describe('tryCast', () => {
+    it('returns the cast value on success', () => {
+      expect(castingManager.tryCast('42', 'number')).toEqual({
+        ok: true,
+        value: 42,
+        error: null,
+      })
+    })
+
+    it('returns the error instead of throwing', () => {
+      const result = castingManager.tryCast('abc', 'number')
+
+      expect(result.ok).toBe(false)
+      expect(result.value).toBeUndefined()
+      expect(result.error).toBeInstanceOf(CastError)
+      expect(result.error?.value).toBe('abc')
+    })
+  })
 })
@@ -298,6 +298,36 @@ describe('ClassBuilder', () => {
     })
   })
 
+  describe('enum props', () => {
+    it('exposes the allowed values of a prop', () => {
+      castingManager.registerEnum('OrderStatus', {
+        Draft: 'draft',
+        Published: 'published',
+      })
+
+      const Order = builder.newModelClass({
+        status: 'OrderStatus',
+        channel: 'enum:web,store',
+        total: 'number',
+      })
+
+      const order = new Order({ status: 'Published', channel: 'WEB' })
+      expect(order.status).toBe('published')
+      expect(order.channel).toBe('web')
+
+      expect(Order.getAllowedValues('status')).toEqual([
+        { value: 'draft', label: 'Draft' },
+        { value: 'published', label: 'Published' },
+      ])
+      expect(Order.getAllowedValues('channel')).toEqual([
+        { value: 'web', label: 'web' },
+        { value: 'store', label: 'store' },
+      ])
+      expect(Order.getAllowedValues('total')).toBe(null)
+      expect(Order.getAllowedValues('missing')).toBe(null)
+    })
+  })
+
   describe('newCollectionClass', () => {
     it('creates a collection class for a model', () => {
       const Person = builder.newModelClass({
@@ -363,6 +393,782 @@ describe('ClassBuilder', () => {
     })
   })
 
+  describe('nullable and required props', () => {
+    it('respects nullable and required flags', () => {
+      castingManager = new CastingManager({ strict: true })
+      builder = new ClassBuilder(castingManager)
+
+      const Address = builder.newModelClass({ city: 'string' })
+      castingManager.registerModel('Address', Address)
+
+      const Customer = builder.newModelClass({
+        name: { type: 'string', required: true },
+        vip: { type: 'boolean', nullable: true },
+        active: 'boolean',
+        address: 'Address?',
+      })
+
+      const customer = new Customer({
+        name: 'John',
+        vip: null,
+        active: null,
+        address: null,
+      })
+
+      expect(customer.vip).toBeNull()
+      expect(customer.active).toBe(false)
+      expect(customer.address).toBeNull()
+      expect(() => new Customer({ name: null })).toThrow(
+        'Cannot cast value to "string" at "name": a value is required'
+      )
+    })
+
+    it('checks required props on assignment, not when reading defaults', () => {
+      const strictBuilder = new ClassBuilder(
+        new CastingManager({ strict: true })
+      )
+      const Customer = strictBuilder.newModelClass({
+        name: { type: 'string', required: true },
+      })
+      const Contact = builder.newModelClass({
+        email: { type: 'string', required: true },
+      })
+      const logError = vi.spyOn(console, 'error')
+
+      const customer = new Customer({})
+      expect(customer.name).toBeNull()
+      expect(() => {
+        customer.name = null
+      }).toThrow('a value is required')
+
+      expect(new Contact({}).email).toBeNull()
+      expect(logError).not.toHaveBeenCalled()
+      logError.mockRestore()
+    })
+  })
+
+  describe('child casting managers', () => {
+    it('keeps casters of one builder out of the others', () => {
+      const legacy = castingManager.createChild()
+      legacy.register('date', (value: any) =>
+        castingManager.cast(value, 'date:DD/MM/YYYY')
+      )
+      const LegacyOrder = new ClassBuilder(legacy).newModelClass({
+        placed_at: 'date',
+        total: 'decimal',
+      })
+      const Order = builder.newModelClass({ placed_at: 'date' })
+
+      const legacyOrder = new LegacyOrder({
+        placed_at: '15/01/2023',
+        total: '9.999',
+      })
+
+      expect(legacyOrder.placed_at).toEqual(new Date('2023-01-15'))
+      expect(legacyOrder.total).toBe(10)
+      expect(new Order({ placed_at: '2023-01-15' }).placed_at).toEqual(
+        new Date('2023-01-15')
+      )
+    })
+  })
+
+  describe('hydrate', () => {
+    beforeEach(() => {
+      castingManager.registerAsync('author', async (id: any) => ({
+        id,
+        name: `Author ${id}`,
+      }))
+    })
+
+    it('creates models with async properties resolved', async () => {
+      const Post = builder.newModelClass({ title: 'string', author: 'author' })
+
+      const post = await Post.hydrate({ title: 'Hello', author: 7 })
+
+      expect(post).toBeInstanceOf(Post)
+      expect(post.title).toBe('Hello')
+      expect(post.author).toEqual({ id: 7, name: 'Author 7' })
+      expect(new Post({ author: 7 }).author).toBe(7)
+    })
+
+    it('creates collections with async item properties resolved', async () => {
+      const Post = builder.newModelClass({ author: 'author' })
+      const PostCollection = builder.newCollectionClass(Post)
+
+      const posts = await PostCollection.hydrate([{ author: 1 }, { author: 2 }])
+
+      expect(posts).toBeInstanceOf(PostCollection)
+      expect(posts.map((post: any) => post.author.name)).toEqual([
+        'Author 1',
+        'Author 2',
+      ])
+    })
+  })
+
+  describe('fromArray', () => {
+    it('creates one cast model per row', () => {
+      const Row = builder.newModelClass({ id: 'integer', total: 'decimal:2' })
+
+      const rows = Row.fromArray([
+        { id: '1', total: '9.999' },
+        { id: '2', total: '0.5', note: 'late' },
+      ])
+
+      expect(rows).toHaveLength(2)
+      expect(rows[0]).toBeInstanceOf(Row)
+      expect(rows.map((row: any) => row.toJSON())).toEqual([
+        { id: 1, total: 10 },
+        { id: 2, total: 0.5 },
+      ])
+      expect(rows[1]._data.note).toBe('late')
+    })
+
+    it('uses custom setters', () => {
+      const Row = builder.newModelClass({ name: 'string' })
+      Row.prototype._set_name = function (value: any) {
+        this._data.name = String(value).toUpperCase()
+      }
+
+      expect(Row.fromArray([{ name: 'ann' }])[0].name).toBe('ANN')
+    })
+
+    it('uses the setters of classes overriding them', () => {
+      const Base = builder.newModelClass({ count: 'integer' })
+      class Counted extends Base {
+        setAttribute(key: string, value: any) {
+          return super.setAttribute(key, key === 'count' ? value * 2 : value)
+        }
+      }
+
+      expect(Counted.fromArray([{ count: '2' }])[0].count).toBe(4)
+    })
+
+    it('casts props added to classes with instances', () => {
+      const Row = builder.newModelClass({ id: 'integer' })
+      Row.fromArray([{ id: '1', total: '9.999' }])
+
+      builder.withClass(Row).add('props', { total: 'decimal:2' }).build()
+
+      expect(Row.fromArray([{ id: '2', total: '9.999' }])[0].total).toBe(10)
+    })
+  })
+
+  describe('transformer props', () => {
+    it('normalizes values declaratively', () => {
+      const Account = builder.newModelClass({
+        email: 'string|trim|lowercase',
+        discount: 'integer|clamp:0:100',
+      })
+
+      const account = new Account({ email: ' Ann@Example.COM ', discount: 120 })
+
+      expect(account.email).toBe('ann@example.com')
+      expect(account.discount).toBe(100)
+      expect(account.toJSON()).toEqual({
+        email: 'ann@example.com',
+        discount: 100,
+      })
+    })
+  })
+
+  describe('dirty tracking', () => {
+    it('compares nested models and collections by value', () => {
+      const Line = builder.newModelClass({ sku: 'string', price: 'decimal:2' })
+      castingManager.registerModel('Line', Line)
+      const Order = builder.newModelClass({
+        placed_at: 'date',
+        customer: 'Line',
+        lines: 'LineCollection',
+      })
+
+      const order = new Order({
+        placed_at: '2023-01-15',
+        customer: { sku: 'C1' },
+        lines: [{ sku: 'A', price: '1' }],
+      })
+
+      order.placed_at = '2023-01-15'
+      order.customer = { sku: 'C1' }
+      expect(order.isDirty()).toBe(false)
+
+      order.lines[0].price = 2
+      expect(order.isDirty('lines')).toBe(true)
+      expect(order.getChanges()).toEqual({
+        lines: [{ sku: 'A', price: 2 }],
+      })
+      expect(order.getOriginal('lines')[0].price).toBe(1)
+
+      order.revert()
+      expect(order.lines[0].price).toBe(1)
+      expect(order.isDirty()).toBe(false)
+    })
+
+    it('compares and copies maps, sets and urls by value', () => {
+      const Product = builder.newModelClass({
+        tags: 'set:string',
+        stock: 'map:string,integer',
+        link: 'url',
+      })
+      const product = new Product({
+        tags: ['a', 'b'],
+        stock: { x: 1 },
+        link: 'https://example.com/a',
+      })
+      const listener = vi.fn()
+      product.on('change', listener)
+
+      product.tags = ['b', 'a']
+      product.stock = { x: '1' }
+      expect(product.isDirty()).toBe(false)
+      expect(listener).not.toHaveBeenCalled()
+
+      product.tags = ['b', 'c']
+      product.stock = { y: 5 }
+      product.link.pathname = '/b'
+      expect(product.isDirty('tags')).toBe(true)
+      expect(product.isDirty('stock')).toBe(true)
+      expect(product.isDirty('link')).toBe(true)
+      expect(Object.keys(product.getChanges())).toEqual([
+        'tags',
+        'stock',
+        'link',
+      ])
+      expect(listener.mock.calls.map(([event]) => event.path)).toEqual([
+        'tags',
+        'stock',
+      ])
+
+      product.tags.add('d')
+      expect([...product.getOriginal('tags')]).toEqual(['a', 'b'])
+      expect(product.getOriginal('link').href).toBe('https://example.com/a')
+    })
+
+    it('copies nested models without running their constructor', () => {
+      const Line = builder.newModelClass({ sku: 'string' })
+      class CheckedLine extends Line {
+        constructor(data: Record<string, any>) {
+          super(data)
+          if (!data.sku) {
+            throw new Error('A line needs a sku')
+          }
+        }
+      }
+      castingManager.registerModel('CheckedLine', CheckedLine as any)
+      const Order = builder.newModelClass({ line: 'CheckedLine' })
+
+      const order = new Order({ line: { sku: 'A' } })
+      order.line.sku = 'B'
+
+      expect(order.getOriginal('line')).toBeInstanceOf(CheckedLine)
+      expect(order.getOriginal('line').sku).toBe('A')
+      expect(order.isDirty('line')).toBe(true)
+    })
+
+    it('does not track the defaults of unset props as changes', () => {
+      const Line = builder.newModelClass({ sku: 'string' })
+      castingManager.registerModel('Line', Line)
+      const Order = builder.newModelClass({
+        id: 'integer',
+        active: 'boolean',
+        tags: 'array',
+        lines: 'LineCollection',
+      })
+
+      const order = new Order({ id: 1 })
+      expect(order.active).toBe(false)
+      expect(order.tags).toEqual([])
+      expect(order.lines).toHaveLength(0)
+
+      expect(order.isDirty()).toBe(false)
+      expect(order.getChanges()).toEqual({})
+
+      order.active = true
+      expect(order.getChanges()).toEqual({ active: true })
+    })
+  })
+
+  describe('validation', () => {
+    it('checks the built-in rules', async () => {
+      const Article = builder.newModelClass({
+        title: { type: 'string', rules: { required: true, min: 3, max: 20 } },
+        slug: { type: 'string', rules: { pattern: /^[a-z-]+$/ } },
+        status: { type: 'string', rules: { in: ['draft', 'published'] } },
+        rating: { type: 'integer', rules: { min: 1, max: 5 } },
+        tags: { type: 'array:string', rules: { max: 2 } },
+        summary: { type: 'string', rules: { min: 10 } },
+      })
+
+      const article = new Article({
+        title: 'Hi',
+        slug: 'Hello World',
+        status: 'archived',
+        rating: 7,
+        tags: ['a', 'b', 'c'],
+      })
+
+      expect(await article.validate()).toEqual({
+        title: ['must have at least 3 characters'],
+        slug: ['has an invalid format'],
+        status: ['must be one of draft, published'],
+        rating: ['must be at most 5'],
+        tags: ['must have at most 2 items'],
+      })
+      expect(await new Article({ title: 'Hello' }).validate()).toEqual({})
+      expect(await new Article().validate()).toEqual({
+        title: ['is required'],
+      })
+    })
+
+    it('runs custom and async rules', async () => {
+      const takenEmails = new Set(['ann@example.com'])
+      const users = {
+        isTaken: vi.fn(async (email: string) => takenEmails.has(email)),
+      }
+      const User = builder.newModelClass({
+        email: {
+          type: 'string',
+          rules: {
+            required: true,
+            unique: async (value: string) =>
+              !(await users.isTaken(value)) || 'is already taken',
+          },
+        },
+        age: {
+          type: 'integer',
+          rules: { adult: (value: number) => value >= 18 },
+        },
+      })
+
+      expect(
+        await new User({ email: 'ann@example.com', age: 16 }).validate()
+      ).toEqual({
+        email: ['is already taken'],
+        age: ['is invalid'],
+      })
+      expect(await new User({ email: 'bob@example.com' }).validate()).toEqual(
+        {}
+      )
+      expect(users.isTaken).toHaveBeenCalledTimes(2)
+    })
+
+    it('passes the model to custom rules', async () => {
+      const rule = vi.fn(() => true)
+      const Item = builder.newModelClass({
+        code: { type: 'string', rules: { check: rule } },
+      })
+      const item = new Item({ code: 'A' })
+
+      await item.validate()
+
+      expect(rule).toHaveBeenCalledWith('A', { model: item, key: 'code' })
+    })
+
+    it('reports the paths of nested models and collection items', async () => {
+      const Line = builder.newModelClass({
+        price: { type: 'decimal:2', rules: { required: true, min: 0 } },
+      })
+      const Address = builder.newModelClass({
+        city: { type: 'string', rules: { required: true } },
+      })
+      castingManager.registerModel('Line', Line)
+      castingManager.registerModel('Address', Address)
+      const Order = builder.newModelClass({
+        address: 'Address',
+        items: { type: 'LineCollection', rules: { required: true } },
+      })
+
+      const order = new Order({
+        address: {},
+        items: [{ price: 1 }, { price: 2 }, { price: -3 }, {}],
+      })
+
+      expect(await order.validate()).toEqual({
+        'address.city': ['is required'],
+        'items.2.price': ['must be at least 0'],
+        'items.3.price': ['is required'],
+      })
+      expect(await order.items.validate()).toEqual({
+        '2.price': ['must be at least 0'],
+        '3.price': ['is required'],
+      })
+      expect(await new Order({ items: [] }).validate()).toEqual({
+        items: ['is required'],
+      })
+    })
+
+    it('rejects unknown rules', async () => {
+      const Item = builder.newModelClass({
+        code: { type: 'string', rules: { unknown: true } },
+      })
+
+      await expect(new Item({ code: 'A' }).validate()).rejects.toThrow(
+        'Unknown validation rule "unknown"'
+      )
+    })
+  })
+
+  describe('observers', () => {
+    it('registers class-level listeners', () => {
+      const changes: string[] = []
+      const Product = builder.newModelClass(
+        { name: 'string', price: 'decimal:2' },
+        {
+          observers: {
+            'change:price': function (this: any, event: any) {
+              changes.push(`${this.name}: ${event.oldValue} -> ${event.value}`)
+            },
+          },
+        }
+      )
+
+      const product = new Product({ name: 'Pen', price: '1.5' })
+      product.price = '2'
+
+      expect(changes).toEqual(['Pen: 1.5 -> 2'])
+    })
+
+    it('bubbles changes of collection items to the parent', () => {
+      const Line = builder.newModelClass({ price: 'decimal:2', qty: 'integer' })
+      castingManager.registerModel('Line', Line)
+      const Order = builder.newModelClass(
+        { lines: 'LineCollection', total: 'decimal:2' },
+        {
+          observers: {
+            'change:lines': function (this: any) {
+              this.total = this.lines.sum((line: any) => line.price * line.qty)
+            },
+          },
+        }
+      )
+
+      const order = new Order({
+        lines: [
+          { price: 10, qty: 1 },
+          { price: 5, qty: 2 },
+        ],
+      })
+      const listener = vi.fn()
+      order.on('change', listener)
+
+      order.lines[1].qty = 3
+      expect(order.total).toBe(25)
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ path: 'lines.1.qty', value: 3, oldValue: 2 })
+      )
+
+      order.lines.add({ price: 1, qty: 1 })
+      expect(order.total).toBe(26)
+    })
+
+    it('does not emit changes when reading unset props', () => {
+      const Line = builder.newModelClass({ sku: 'string' })
+      castingManager.registerModel('Line', Line)
+      const change = vi.fn()
+      const Order = builder.newModelClass(
+        { active: 'boolean', tags: 'array', lines: 'LineCollection' },
+        { observers: { change } }
+      )
+      const order = new Order({})
+      const listener = vi.fn()
+      order.on('change:active', listener)
+
+      expect([order.active, order.tags, order.lines.length]).toEqual([
+        false,
+        [],
+        0,
+      ])
+      expect(change).not.toHaveBeenCalled()
+      expect(listener).not.toHaveBeenCalled()
+
+      order.lines.add({ sku: 'A' })
+      expect(change).toHaveBeenCalledTimes(1)
+    })
+
+    it('emits serializing only when serializing', () => {
+      const serializing = vi.fn()
+      const Line = builder.newModelClass(
+        { sku: 'string' },
+        { observers: { serializing } }
+      )
+      castingManager.registerModel('Line', Line)
+      const Order = builder.newModelClass({
+        main: 'Line',
+        lines: 'LineCollection',
+      })
+
+      const order = new Order({ main: { sku: 'A' }, lines: [{}, {}] })
+      order.main.sku = 'B'
+      expect(order.isDirty('main')).toBe(true)
+      expect(order.getOriginal('main').sku).toBe('A')
+      expect(serializing).not.toHaveBeenCalled()
+
+      order.toJSON()
+      expect(serializing).toHaveBeenCalledTimes(3)
+    })
+
+    it('requires a BaseModel class', () => {
+      expect(() =>
+        builder.withClass(class {}).add('observers', { change: vi.fn() })
+      ).toThrow('Observers require a class extending BaseModel')
+    })
+  })
+
+  describe('history', () => {
+    let Line: any
+    let Order: any
+
+    beforeEach(() => {
+      Line = builder.newModelClass({ sku: 'string', qty: 'integer' })
+      castingManager.registerModel('Line', Line)
+      Order = builder.newModelClass(
+        { status: 'string', lines: 'LineCollection' },
+        { history: { limit: 3 } }
+      )
+    })
+
+    it('undoes and redoes attribute changes', () => {
+      const order = new Order({ status: 'draft' })
+      expect(order.canUndo()).toBe(false)
+
+      order.status = 'sent'
+      order.status = 'paid'
+
+      expect(order.undo().status).toBe('sent')
+      expect(order.canRedo()).toBe(true)
+      expect(order.undo().status).toBe('draft')
+      expect(order.canUndo()).toBe(false)
+      expect(order.redo().redo().status).toBe('paid')
+      expect(order.canRedo()).toBe(false)
+    })
+
+    it('records changes of nested models and collections', () => {
+      const order = new Order({ lines: [{ sku: 'A', qty: 1 }] })
+      const first = order.lines[0]
+
+      first.qty = 2
+      order.lines.add({ sku: 'B', qty: 1 })
+      order.batch(() => order.lines.splice(0, 1, { sku: 'C', qty: 1 }))
+
+      expect(order.lines.map((line: any) => line.sku)).toEqual(['C', 'B'])
+      order.undo()
+      expect(order.lines.map((line: any) => line.sku)).toEqual(['A', 'B'])
+      expect(order.lines[0]).toBe(first)
+      order.undo()
+      expect(order.lines.map((line: any) => line.sku)).toEqual(['A'])
+      order.undo()
+      expect(first.qty).toBe(1)
+
+      order.redo().redo()
+      expect(order.lines.map((line: any) => line.sku)).toEqual(['A', 'B'])
+      expect(first.qty).toBe(2)
+    })
+
+    it('undoes batched changes in one step', () => {
+      const order = new Order({ status: 'draft', lines: [] })
+
+      order.batch((model: any) => {
+        model.status = 'sent'
+        model.lines.add({ sku: 'A' })
+      })
+      order.status = 'paid'
+
+      order.undo().undo()
+      expect(order.status).toBe('draft')
+      expect(order.lines).toHaveLength(0)
+      expect(order.canUndo()).toBe(false)
+    })
+
+    it('keeps a bounded number of steps', () => {
+      const order = new Order({ status: '0' })
+
+      ;['1', '2', '3', '4'].forEach((status) => {
+        order.status = status
+      })
+      while (order.canUndo()) {
+        order.undo()
+      }
+
+      expect(order.status).toBe('1')
+    })
+
+    it('does not record reads of unset props', () => {
+      const order = new Order({})
+
+      expect(order.status).toBeNull()
+      expect(order.lines).toHaveLength(0)
+
+      expect(order.canUndo()).toBe(false)
+    })
+
+    it('undoes items removed by pop() and shift()', () => {
+      const order = new Order({
+        lines: [{ sku: 'A' }, { sku: 'B' }, { sku: 'C' }],
+      })
+      const skus = () => order.lines.map((line: any) => line.sku)
+
+      order.lines.pop()
+      order.lines.shift()
+      expect(skus()).toEqual(['B'])
+
+      order.undo()
+      expect(skus()).toEqual(['A', 'B'])
+      order.undo()
+      expect(skus()).toEqual(['A', 'B', 'C'])
+      order.redo()
+      expect(skus()).toEqual(['A', 'B'])
+    })
+
+    it('drops the undone steps on new changes', () => {
+      const order = new Order({ status: 'draft' })
+
+      order.status = 'sent'
+      order.undo()
+      order.status = 'cancelled'
+
+      expect(order.canRedo()).toBe(false)
+      expect(order.undo().status).toBe('draft')
+    })
+  })
+
+  describe('immutable models', () => {
+    let Product: any
+
+    beforeEach(() => {
+      const Supplier = builder.newModelClass({ name: 'string' })
+      castingManager.registerModel('Supplier', Supplier)
+      Product = builder.newModelClass(
+        { name: 'string', price: 'decimal:2', supplier: 'Supplier' },
+        { immutable: true }
+      )
+    })
+
+    it('rejects changes once built', () => {
+      const product = new Product({ name: 'Pen', price: '1.5' })
+
+      expect(() => {
+        product.price = 2
+      }).toThrow('Cannot change "price" of an immutable model')
+      expect(() => product.setAttributes({ name: 'Pencil' })).toThrow()
+      expect(() => product.revert()).toThrow()
+      expect(product.price).toBe(1.5)
+      expect(product.supplier).toBeInstanceOf(BaseModel)
+    })
+
+    it('creates changed copies with with()', () => {
+      const product = new Product({
+        name: 'Pen',
+        price: '1.5',
+        supplier: { name: 'Acme' },
+      })
+
+      const cheaper = product.with({ price: '0.999' })
+
+      expect(cheaper).toBeInstanceOf(Product)
+      expect(cheaper).not.toBe(product)
+      expect(cheaper.price).toBe(1)
+      expect(product.price).toBe(1.5)
+      expect(cheaper.supplier).toBe(product.supplier)
+      expect(cheaper.getChanges()).toEqual({ price: 1 })
+      expect(() => {
+        cheaper.price = 2
+      }).toThrow()
+    })
+
+    it('guards the collections of immutable models', () => {
+      const Line = builder.newModelClass({ id: 'integer' })
+      castingManager.registerModel('Line', Line)
+      const Cart = builder.newModelClass(
+        { lines: 'LineCollection' },
+        { immutable: true }
+      )
+      const cart = new Cart({ lines: [{ id: 1 }, { id: 2 }] })
+
+      ;[
+        () => cart.lines.add({ id: 3 }),
+        () => cart.lines.push({ id: 3 }),
+        () => cart.lines.remove(1),
+        () => cart.lines.splice(0, 1),
+        () => cart.lines.pop(),
+        () => cart.lines.shift(),
+        () => cart.lines.unshift({ id: 0 }),
+        () => cart.lines.sortBy('id', 'desc', true),
+      ].forEach((change) => {
+        expect(change).toThrow('use withAdded() or withRemoved() instead')
+      })
+      expect(cart.lines.map((line: any) => line.id)).toEqual([1, 2])
+
+      const longer = cart.with({ lines: cart.lines.withAdded({ id: 3 }) })
+      expect(longer.lines).toHaveLength(3)
+      expect(() => longer.lines.add({ id: 4 })).toThrow()
+      expect(cart.lines).toHaveLength(2)
+      expect(new Cart({}).lines.isFrozen()).toBe(true)
+    })
+
+    it('freezes copies of the collections passed in', () => {
+      const Line = builder.newModelClass({ id: 'integer' })
+      castingManager.registerModel('Line', Line)
+      const Order = builder.newModelClass({ lines: 'LineCollection' })
+      const Snapshot = builder.newModelClass(
+        { lines: 'LineCollection' },
+        { immutable: true }
+      )
+      const order = new Order({ lines: [{ id: 1 }] })
+
+      const snapshot = new Snapshot({ lines: order.lines })
+      order.lines.add({ id: 2 })
+
+      expect(order.lines.isFrozen()).toBe(false)
+      expect(snapshot.lines.isFrozen()).toBe(true)
+      expect(snapshot.lines.map((line: any) => line.id)).toEqual([1])
+
+      const copy = snapshot.with({ lines: order.lines })
+      expect(copy.lines).not.toBe(order.lines)
+      expect(copy.lines.isFrozen()).toBe(true)
+      expect(snapshot.with({}).lines).toBe(snapshot.lines)
+      expect(() => order.lines.add({ id: 3 })).not.toThrow()
+    })
+
+    it('does not link the shared values of copies', () => {
+      const Line = builder.newModelClass({ sku: 'string' })
+      castingManager.registerModel('Line', Line)
+      const change = vi.fn()
+      const Order = builder.newModelClass(
+        { name: 'string', customer: 'Supplier', lines: 'LineCollection' },
+        { immutable: true, observers: { change } }
+      )
+      let order = new Order({
+        name: 'A',
+        customer: { name: 'Acme' },
+        lines: [{ sku: 'A' }],
+      })
+      const { customer, lines } = order
+
+      for (let i = 0; i < 50; i++) {
+        order = order.with({ name: `Order ${i}` })
+      }
+      change.mockClear()
+      customer.name = 'Globex'
+      lines[0].sku = 'B'
+
+      expect((customer as any)._events.listeners.get('change')).toHaveLength(1)
+      expect((lines as any)._events.listeners.get('change')).toHaveLength(1)
+      expect(change).toHaveBeenCalledTimes(2)
+    })
+
+    it('can be enabled on existing classes', () => {
+      class Tag extends BaseModel {}
+      const ImmutableTag = builder
+        .withClass(Tag)
+        .add('props', { label: 'string' })
+        .add('immutable')
+        .build()
+
+      expect(() => {
+        new ImmutableTag({ label: 'a' }).label = 'b'
+      }).toThrow()
+    })
+  })
+
   describe('serialization', () => {
     it('correctly serializes model instances to JSON', () => {
       const User = builder.newModelClass(
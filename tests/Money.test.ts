@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import Money from '../src/Money'
+
+describe('Money', () => {
+  it('keeps amount and currency together', () => {
+    const price = new Money('19.99', 'eur')
+
+    expect(price.currency).toBe('EUR')
+    expect(price.amount.toString()).toBe('19.99')
+    expect(price.toString()).toBe('19.99 EUR')
+    expect(price.toJSON()).toEqual({ amount: '19.99', currency: 'EUR' })
+  })
+
+  it('adds and subtracts amounts of the same currency', () => {
+    const total = new Money('0.10', 'EUR').plus(new Money('0.20', 'EUR'))
+
+    expect(total.equals(new Money('0.3', 'EUR'))).toBe(true)
+    expect(total.minus(new Money('0.05', 'EUR')).toString()).toBe('0.25 EUR')
+    expect(() => total.plus(new Money('1', 'USD'))).toThrow(
+      'Cannot combine EUR with USD'
+    )
+  })
+
+  it('multiplies and divides with rounding modes', () => {
+    const price = new Money('10.00', 'EUR')
+
+    expect(price.times('0.19').toString()).toBe('1.90 EUR')
+    expect(price.dividedBy(3).toString()).toBe('3.33 EUR')
+    expect(price.dividedBy(3, 'up').toString()).toBe('3.34 EUR')
+  })
+
+  it('rounds to the minor units of the currency', () => {
+    expect(new Money('10.555', 'EUR').round().toString()).toBe('10.56 EUR')
+    expect(new Money('10.5', 'JPY').round().toString()).toBe('11 JPY')
+    expect(new Money('10.125', 'EUR').round(2, 'half-even').toString()).toBe(
+      '10.12 EUR'
+    )
+    expect(Money.minorUnits('KWD')).toBe(3)
+  })
+})
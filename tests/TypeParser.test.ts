@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { parseTypeSpec, formatTypeSpec } from '../src/TypeParser'
+
+describe('TypeParser', () => {
+  describe('parseTypeSpec', () => {
+    it('parses simple types', () => {
+      expect(parseTypeSpec('number')).toEqual({ name: 'number', params: [] })
+      expect(parseTypeSpec('userCollection')).toEqual({
+        name: 'userCollection',
+        params: [],
+      })
+    })
+
+    it('keeps colon parameters as strings', () => {
+      expect(parseTypeSpec('decimal:2')).toEqual({
+        name: 'decimal',
+        params: ['2'],
+      })
+      expect(parseTypeSpec('array:decimal:2')).toEqual({
+        name: 'array',
+        params: ['decimal', '2'],
+      })
+      expect(parseTypeSpec('enum:draft,published')).toEqual({
+        name: 'enum',
+        params: ['draft,published'],
+      })
+    })
+
+    it('parses literal parameters in parentheses', () => {
+      expect(parseTypeSpec('decimal(2)')).toEqual({
+        name: 'decimal',
+        params: ['2'],
+      })
+      expect(parseTypeSpec('date( DD/MM/YYYY , UTC )')).toEqual({
+        name: 'date',
+        params: ['DD/MM/YYYY', 'UTC'],
+      })
+    })
+
+    it('parses type arguments recursively', () => {
+      expect(parseTypeSpec('array<decimal(2)>')).toEqual({
+        name: 'array',
+        params: [{ name: 'decimal', params: ['2'] }],
+      })
+      expect(parseTypeSpec('array<array<number>>')).toEqual({
+        name: 'array',
+        params: [{ name: 'array', params: [{ name: 'number', params: [] }] }],
+      })
+      expect(parseTypeSpec('record<string, decimal:2>')).toEqual({
+        name: 'record',
+        params: [
+          { name: 'string', params: [] },
+          { name: 'decimal', params: ['2'] },
+        ],
+      })
+    })
+
+    it('parses nullable types and unions', () => {
+      expect(parseTypeSpec('decimal:2?')).toEqual({
+        name: 'decimal',
+        params: ['2'],
+        nullable: true,
+      })
+      expect(parseTypeSpec('number|string?')).toEqual({
+        name: 'union',
+        params: [
+          { name: 'number', params: [] },
+          { name: 'string', params: [], nullable: true },
+        ],
+        nullable: true,
+      })
+      expect(parseTypeSpec('array<number|string>')).toEqual({
+        name: 'array',
+        params: [
+          {
+            name: 'union',
+            params: [
+              { name: 'number', params: [] },
+              { name: 'string', params: [] },
+            ],
+          },
+        ],
+      })
+    })
+
+    it('throws on malformed specs', () => {
+      expect(() => parseTypeSpec('array<number')).toThrow(
+        'Invalid type spec "array<number" at position 12: expected ">"'
+      )
+      expect(() => parseTypeSpec('')).toThrow('expected a type name')
+      expect(() => parseTypeSpec('array<number>>')).toThrow('unexpected ">"')
+    })
+  })
+
+  describe('formatTypeSpec', () => {
+    it('formats parsed specs back to strings', () => {
+      expect(formatTypeSpec(parseTypeSpec('decimal(2)'))).toBe('decimal:2')
+      expect(formatTypeSpec(parseTypeSpec('array<array<number>>'))).toBe(
+        'array<array<number>>'
+      )
+      expect(formatTypeSpec('number')).toBe('number')
+      expect(formatTypeSpec(parseTypeSpec('number|string?'))).toBe(
+        'number|string?'
+      )
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import { bench, describe } from 'vitest'
+import CastingManager from '../src/CastingManager'
+import ClassBuilder from '../src/ClassBuilder'
+import BaseModel from '../src/BaseModel'
+import { TypeParam, TypeSpec, parseTypeSpec } from '../src/TypeParser'
+
+const castingManager = new CastingManager()
+const builder = new ClassBuilder(castingManager)
+
+const props: Record<string, string> = {
+  id: 'integer',
+  sku: 'string',
+  price: 'decimal:2',
+  quantity: 'integer',
+  active: 'boolean',
+  created_at: 'date',
+}
+
+const Row = builder.newModelClass(props)
+
+// Parses the spec on every cast, as cast() did before the parsed specs were
+// cached
+class ParsingCastingManager extends CastingManager {
+  parseType(typeSpec: TypeParam): TypeSpec {
+    return typeof typeSpec === 'string' ? parseTypeSpec(typeSpec) : typeSpec
+  }
+}
+
+// Sets every attribute through setAttribute() and the casters of the props
+// before casting plans: a caster lookup and a cast() per attribute
+function uncompiledModel(manager: CastingManager) {
+  return class extends BaseModel {
+    castAttribute(key: string, value: any): any {
+      const type = props[key]
+      return type && manager.hasCaster(type)
+        ? manager.cast(value, type, { path: key })
+        : value
+    }
+  }
+}
+
+const UncompiledRow = uncompiledModel(castingManager)
+const ParsingRow = uncompiledModel(new ParsingCastingManager())
+
+const rows = Array.from({ length: 10000 }, (_, i) => ({
+  id: String(i),
+  sku: `SKU-${i}`,
+  price: `${i}.456`,
+  quantity: String(i % 50),
+  active: i % 2 ? 'yes' : 'no',
+  created_at: '2023-01-15',
+}))
+
+describe('hydrating 10k rows', () => {
+  bench('setAttribute() with cast(), parsing the specs', () => {
+    rows.map((row) => new ParsingRow(row))
+  })
+
+  bench('setAttribute() with cast()', () => {
+    rows.map((row) => new UncompiledRow(row))
+  })
+
+  bench('constructor with casting plan', () => {
+    rows.map((row) => new Row(row))
+  })
+
+  bench('Model.fromArray()', () => {
+    Row.fromArray(rows)
+  })
+})
+
+// The caster lookup alone, without the work of the casters
+describe('casting 10k values', () => {
+  const toCode = castingManager.compile('string')
+
+  bench('cast()', () => {
+    rows.forEach((row) => castingManager.cast(row.sku, 'string'))
+  })
+
+  bench('compiled cast', () => {
+    rows.forEach((row) => toCode(row.sku))
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import CastingManager from '../src/CastingManager'
+import ClassBuilder from '../src/ClassBuilder'
+import { ModelEvent } from '../src/Emitter'
+import { ReactivityAdapter, makeReactive } from '../src/reactivity'
+
+interface FakeState {
+  target: any
+  notifications: ModelEvent[]
+}
+
+// Stands in for the refs or signals of a UI framework
+const fakeAdapter: ReactivityAdapter<FakeState> = {
+  create: (target) => ({ target, notifications: [] }),
+  notify: (state, event) => {
+    state.notifications.push(event)
+  },
+}
+
+describe('makeReactive', () => {
+  let Line: any
+  let Order: any
+
+  beforeEach(() => {
+    const castingManager = new CastingManager()
+    const builder = new ClassBuilder(castingManager)
+    Line = builder.newModelClass({ sku: 'string', qty: 'integer' })
+    castingManager.registerModel('Line', Line)
+    Order = builder.newModelClass({ status: 'string', lines: 'LineCollection' })
+  })
+
+  it('notifies the adapter of attribute changes', () => {
+    const order = new Order({ status: 'draft' })
+    const reactive = makeReactive(order, fakeAdapter)
+
+    order.status = 'sent'
+    order.status = 'sent'
+
+    expect(reactive.state.target).toBe(order)
+    expect(reactive.state.notifications).toEqual([
+      expect.objectContaining({ path: 'status', value: 'sent' }),
+    ])
+    expect(reactive.version).toBe(1)
+  })
+
+  it('notifies of changes in nested collections', () => {
+    const order = new Order({ lines: [{ sku: 'A', qty: 1 }] })
+    const { state } = makeReactive(order, fakeAdapter)
+
+    order.lines[0].qty = 2
+    order.lines.add({ sku: 'B', qty: 1 })
+    order.lines.remove(order.lines[0])
+
+    expect(state.notifications.map((event) => event.path)).toEqual([
+      'lines.0.qty',
+      'lines.1',
+      'lines.0',
+    ])
+  })
+
+  it('notifies of collection membership changes', () => {
+    const LineCollection = new ClassBuilder(
+      new CastingManager()
+    ).newCollectionClass(Line)
+    const lines = new LineCollection([{ sku: 'A' }])
+    const { state } = makeReactive(lines, fakeAdapter)
+
+    lines.push({ sku: 'B' })
+    lines.splice(0, 1)
+
+    expect(
+      state.notifications.map((event) => [event.path, event.value?.sku])
+    ).toEqual([
+      ['1', 'B'],
+      ['0', undefined],
+    ])
+  })
+
+  it('notifies of items removed by pop() and shift()', () => {
+    const order = new Order({
+      lines: [{ sku: 'A' }, { sku: 'B' }, { sku: 'C' }],
+    })
+    const { state } = makeReactive(order, fakeAdapter)
+
+    expect(order.lines.pop().sku).toBe('C')
+    expect(order.lines.shift().sku).toBe('A')
+    order.lines.shift()
+    expect(order.lines.pop()).toBeUndefined()
+
+    expect(
+      state.notifications.map((event) => [event.path, event.oldValue?.sku])
+    ).toEqual([
+      ['lines.2', 'C'],
+      ['lines.0', 'A'],
+      ['lines.0', 'B'],
+    ])
+  })
+
+  it('does not notify of reads', () => {
+    const order = new Order({})
+    const reactive = makeReactive(order, fakeAdapter)
+    const listener = vi.fn()
+    reactive.subscribe(listener)
+
+    expect(order.status).toBeNull()
+    expect(order.lines).toHaveLength(0)
+
+    expect(listener).not.toHaveBeenCalled()
+    expect(reactive.version).toBe(0)
+  })
+
+  it('calls subscribers until they unsubscribe', () => {
+    const order = new Order({ status: 'draft' })
+    const reactive = makeReactive(order, fakeAdapter)
+    const listener = vi.fn()
+
+    const unsubscribe = reactive.subscribe(listener)
+    order.status = 'sent'
+    unsubscribe()
+    order.status = 'paid'
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(reactive.version).toBe(2)
+  })
+
+  it('stops listening when disposed', () => {
+    const order = new Order({ lines: [{ sku: 'A' }] })
+    const reactive = makeReactive(order, fakeAdapter)
+
+    reactive.dispose()
+    order.lines[0].sku = 'B'
+
+    expect(reactive.state.notifications).toEqual([])
+    expect(order.lines[0]._events?.has('change')).toBe(false)
+  })
+})